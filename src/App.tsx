@@ -1,12 +1,21 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { ChangeFeed } from './components/ChangeFeed';
 import { ConnectionPanel } from './components/ConnectionPanel';
 import { CopyButton } from './components/CopyButton';
+import { HealthIndicator } from './components/HealthIndicator';
 import { ModelSelector } from './components/ModelSelector';
 import { ModelViewer } from './components/ModelViewer';
+import { NetworkInspector, NetworkRequestCount } from './components/NetworkInspector';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
 import { QueryPanel } from './components/QueryPanel';
 import { RelationshipTree } from './components/RelationshipTree';
+import { SettingsPanel } from './components/SettingsPanel';
+import { StoreOverview } from './components/StoreOverview';
 import { StoreSelector } from './components/StoreSelector';
 import { TupleManager } from './components/TupleManager';
+import { healthMonitor } from './services/health-monitor';
+import { completeAuthorizationCodeLogin, isOidcCallback } from './services/oidc';
+import openfgaApi from './services/openfga-api';
 import { useAppStore } from './store/app-store';
 
 // Official OpenFGA Logo SVG Component
@@ -27,12 +36,14 @@ const OpenFGALogo = ({ className = "w-6 h-6" }: { className?: string }) => (
   </svg>
 );
 
-type Tab = 'model' | 'tuples' | 'queries' | 'tree';
+type Tab = 'overview' | 'model' | 'tuples' | 'queries' | 'tree' | 'changes';
 
 function App() {
-  const { isConnected, selectedStore, selectedModel, connection, darkMode, toggleDarkMode } = useAppStore();
+  const { isConnected, selectedStore, selectedModel, connection, darkMode, toggleDarkMode, defaultConsistency, maxRetries, bypassCache, secretStorage, vaultKey, encryptedSecrets, connect, setConnection, setConnectionError, refreshStores } = useAppStore();
   const [activeTab, setActiveTab] = useState<Tab>('model');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [inspectorOpen, setInspectorOpen] = useState(false);
+  const oidcCallbackHandled = useRef(false);
 
   // Auto-collapse sidebar on smaller screens
   useEffect(() => {
@@ -46,6 +57,49 @@ function App() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Keep the API client's query consistency in sync with settings
+  useEffect(() => {
+    openfgaApi.setDefaultConsistency(defaultConsistency);
+  }, [defaultConsistency]);
+
+  useEffect(() => {
+    openfgaApi.setMaxRetries(maxRetries);
+  }, [maxRetries]);
+
+  useEffect(() => {
+    openfgaApi.setCacheBypassed(bypassCache);
+  }, [bypassCache]);
+
+  // Watch server health while connected and reload the data once it
+  // recovers from an outage
+  useEffect(() => {
+    if (!isConnected) return;
+    healthMonitor.start(refreshStores);
+    return () => healthMonitor.stop();
+  }, [isConnected, connection.serverUrl, refreshStores]);
+
+  // Persist refreshed OIDC tokens with the connection
+  useEffect(() => openfgaApi.onTokensChanged(setConnection), [setConnection]);
+
+  // Finish an OIDC sign-in when the provider redirects back to us. The ref
+  // keeps StrictMode's second effect run from redeeming the code twice. With
+  // a locked vault this waits for the unlock, which brings back the client
+  // credentials the token request needs.
+  const vaultLocked = secretStorage === 'vault' && !vaultKey && !!encryptedSecrets;
+  useEffect(() => {
+    if (!isOidcCallback() || oidcCallbackHandled.current || vaultLocked) return;
+    oidcCallbackHandled.current = true;
+    completeAuthorizationCodeLogin((profileId) => {
+      const state = useAppStore.getState();
+      return profileId
+        ? state.profiles.find((p) => p.id === profileId)?.connection
+        : state.connection;
+    })
+      .then(connect)
+      .catch((error) => setConnectionError(error instanceof Error ? error.message : 'OIDC sign-in failed'))
+      .finally(() => window.history.replaceState(null, '', '/'));
+  }, [connect, setConnectionError, vaultLocked]);
+
   // Apply dark mode class to document
   useEffect(() => {
     if (darkMode) {
@@ -68,13 +122,7 @@ function App() {
           {/* Connection Status - Always visible when connected */}
           {isConnected && (
             <div className="flex items-center gap-3">
-              <div className="flex items-center gap-2 px-3 py-1.5 bg-white/15 rounded-lg backdrop-blur-sm">
-                <span className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />
-                <span className="text-white/90 text-xs font-medium">Connected to:</span>
-                <code className="text-white text-xs font-mono bg-white/10 px-2 py-0.5 rounded">
-                  {connection.serverUrl}
-                </code>
-              </div>
+              <HealthIndicator serverUrl={connection.serverUrl} />
               {selectedStore && (
                 <div className="hidden lg:flex items-center gap-2 px-3 py-1.5 bg-white/10 rounded-lg text-white/90 text-xs">
                   <span className="text-white/60">Store:</span>
@@ -92,6 +140,19 @@ function App() {
           )}
 
           <div className="flex items-center gap-2">
+            {/* Connection Profiles */}
+            <ProfileSwitcher darkMode={darkMode} />
+            {/* Network Inspector Toggle */}
+            <button
+              onClick={() => setInspectorOpen(!inspectorOpen)}
+              className={`px-2 py-1.5 rounded-lg transition-colors flex items-center gap-1.5 ${inspectorOpen ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+              title={inspectorOpen ? 'Hide network inspector' : 'Show network inspector'}
+            >
+              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+              </svg>
+              <NetworkRequestCount />
+            </button>
             {/* Dark Mode Toggle */}
             <button
               onClick={toggleDarkMode}
@@ -153,6 +214,11 @@ function App() {
                   <ModelSelector compact darkMode={darkMode} />
                 </SidebarSection>
               )}
+
+              {/* Query and Credential Settings */}
+              <SidebarSection title="Settings" icon="⚙️" defaultOpen={false} darkMode={darkMode}>
+                <SettingsPanel darkMode={darkMode} />
+              </SidebarSection>
             </div>
           )}
 
@@ -242,6 +308,12 @@ function App() {
               {/* Tab Navigation */}
               <div className="flex-shrink-0 p-3 pb-0">
                 <nav className={`flex gap-1 p-1 ${darkMode ? 'bg-gray-800/80' : 'bg-white/80'} backdrop-blur rounded-xl shadow`}>
+                  <TabButton active={activeTab === 'overview'} onClick={() => setActiveTab('overview')} gradient="from-amber-500 to-orange-500" darkMode={darkMode}>
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                    </svg>
+                    Overview
+                  </TabButton>
                   <TabButton active={activeTab === 'model'} onClick={() => setActiveTab('model')} gradient="from-indigo-500 to-purple-500" darkMode={darkMode}>
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -266,22 +338,35 @@ function App() {
                     </svg>
                     Tree
                   </TabButton>
+                  <TabButton active={activeTab === 'changes'} onClick={() => setActiveTab('changes')} gradient="from-violet-500 to-fuchsia-500" darkMode={darkMode}>
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    Changes
+                  </TabButton>
                 </nav>
               </div>
 
               {/* Tab Content */}
               <div className="flex-1 overflow-hidden p-3">
                 <div className="h-full">
+                  {activeTab === 'overview' && <StoreOverview darkMode={darkMode} />}
                   {activeTab === 'model' && <ModelViewer darkMode={darkMode} />}
                   {activeTab === 'tuples' && <TupleManager darkMode={darkMode} />}
                   {activeTab === 'queries' && <QueryPanel darkMode={darkMode} />}
                   {activeTab === 'tree' && <RelationshipTree darkMode={darkMode} />}
+                  {activeTab === 'changes' && <ChangeFeed darkMode={darkMode} />}
                 </div>
               </div>
             </>
           )}
         </main>
       </div>
+
+      {/* Network Inspector Drawer */}
+      {inspectorOpen && (
+        <NetworkInspector onClose={() => setInspectorOpen(false)} darkMode={darkMode} />
+      )}
     </div>
   ); 
 }
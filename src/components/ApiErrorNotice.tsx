@@ -0,0 +1,26 @@
+import { describeApiError } from '../utils/api-errors';
+
+interface ApiErrorNoticeProps {
+  error: unknown;
+  compact?: boolean;
+  darkMode?: boolean;
+}
+
+// Error box with the server's message, a hint on how to fix it and the
+// code / status / request ID for bug reports
+export function ApiErrorNotice({ error, compact = false, darkMode = false }: ApiErrorNoticeProps) {
+  const { message, hint, code, status, requestId } = describeApiError(error);
+  const details = [code, status ? `HTTP ${status}` : undefined, requestId ? `request ${requestId}` : undefined].filter(Boolean);
+
+  return (
+    <div className={`${compact ? 'p-2 rounded-lg' : 'p-3 rounded-md'} border ${darkMode ? 'bg-red-900/30 border-red-800' : 'bg-red-50 border-red-200'}`}>
+      <p className={`${compact ? 'text-xs' : 'text-sm'} ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{message}</p>
+      {hint && (
+        <p className={`${compact ? 'text-[11px]' : 'text-xs'} mt-1 ${darkMode ? 'text-red-200/80' : 'text-red-600'}`}>{hint}</p>
+      )}
+      {details.length > 0 && (
+        <p className={`text-[10px] font-mono mt-1 ${darkMode ? 'text-red-400/70' : 'text-red-400'}`}>{details.join(' · ')}</p>
+      )}
+    </div>
+  );
+}
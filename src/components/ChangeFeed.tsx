@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import openfgaApi, { isAbortError } from '../services/openfga-api';
+import { useAppStore } from '../store/app-store';
+import type { ReadChangesResponse, TupleChange } from '../types/openfga';
+import { formatDateTime, formatRelativeTime } from '../utils/ulid';
+import { CustomSelect } from './CustomSelect';
+
+const PAGE_SIZE = 50;
+
+interface ChangeFeedProps {
+  darkMode?: boolean;
+}
+
+// Group changes by calendar day, keeping the server's chronological order
+function groupChangesByDay(changes: TupleChange[]) {
+  const groups: { day: string; changes: TupleChange[] }[] = [];
+  for (const change of changes) {
+    const day = new Date(change.timestamp).toLocaleDateString(undefined, {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) {
+      last.changes.push(change);
+    } else {
+      groups.push({ day, changes: [change] });
+    }
+  }
+  return groups;
+}
+
+// readChanges always returns a continuation token, so only an empty page
+// marks the end of the feed
+function hasMoreChanges(response: ReadChangesResponse) {
+  return response.changes.length > 0 && !!response.continuation_token;
+}
+
+export function ChangeFeed({ darkMode = false }: ChangeFeedProps) {
+  const { selectedStore, selectedModel } = useAppStore();
+
+  const [changes, setChanges] = useState<TupleChange[]>([]);
+  const [continuationToken, setContinuationToken] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState('');
+  const [startTime, setStartTime] = useState('');
+
+  const typeOptions = useMemo(() => {
+    const types = selectedModel ? selectedModel.type_definitions.map(td => td.type) : [];
+    return [
+      { value: '', label: 'All types' },
+      ...types.map(type => ({ value: type, label: type })),
+    ];
+  }, [selectedModel]);
+
+  // Guards against an older, aborted load finishing after a newer one started.
+  // "Load more" checks it too, so a page for the previous filters is dropped.
+  const loadSeqRef = useRef(0);
+
+  const loadChanges = useCallback(async () => {
+    if (!selectedStore) return;
+
+    const seq = ++loadSeqRef.current;
+    setIsLoading(true);
+    setLoadingMore(false);
+    setError(null);
+
+    try {
+      const response = await openfgaApi.readChanges(
+        selectedStore.id,
+        PAGE_SIZE,
+        undefined,
+        typeFilter || undefined,
+        startTime ? new Date(startTime).toISOString() : undefined
+      );
+      if (seq !== loadSeqRef.current) return;
+      setChanges(response.changes);
+      setContinuationToken(response.continuation_token || null);
+      setHasMore(hasMoreChanges(response));
+    } catch (err) {
+      if (isAbortError(err) || seq !== loadSeqRef.current) return;
+      setChanges([]);
+      setHasMore(false);
+      setError(err instanceof Error ? err.message : 'Failed to load changes');
+    } finally {
+      if (seq === loadSeqRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [selectedStore, typeFilter, startTime]);
+
+  const loadMoreChanges = async () => {
+    if (!selectedStore || !continuationToken || loadingMore) return;
+
+    const seq = loadSeqRef.current;
+    setLoadingMore(true);
+    setError(null);
+
+    try {
+      const response = await openfgaApi.readChanges(
+        selectedStore.id,
+        PAGE_SIZE,
+        continuationToken,
+        typeFilter || undefined
+      );
+      if (seq !== loadSeqRef.current) return;
+      setChanges(prev => [...prev, ...response.changes]);
+      setContinuationToken(response.continuation_token || null);
+      setHasMore(hasMoreChanges(response));
+    } catch (err) {
+      if (isAbortError(err) || seq !== loadSeqRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more changes');
+    } finally {
+      if (seq === loadSeqRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const groupedChanges = useMemo(() => groupChangesByDay(changes), [changes]);
+
+  const writeCount = changes.filter(c => c.operation === 'TUPLE_OPERATION_WRITE').length;
+  const deleteCount = changes.length - writeCount;
+
+  if (!selectedStore) {
+    return null;
+  }
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white/95 border-white/20'} backdrop-blur-sm rounded-2xl shadow-xl border overflow-hidden flex flex-col h-full`}>
+      {/* Header */}
+      <div className={`p-3 border-b ${darkMode ? 'border-gray-700 bg-gradient-to-r from-gray-800 to-gray-700' : 'border-gray-100 bg-gradient-to-r from-violet-50 to-fuchsia-50'}`}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 bg-gradient-to-br from-violet-500 to-fuchsia-500 rounded-lg">
+              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <span className={`text-sm font-medium ${darkMode ? 'text-gray-200' : 'text-gray-700'}`}>{changes.length} changes</span>
+            {changes.length > 0 && (
+              <div className="flex items-center gap-1">
+                <span className={`text-[10px] px-1.5 py-0.5 rounded ${darkMode ? 'bg-emerald-900/50 text-emerald-400' : 'bg-emerald-100 text-emerald-700'}`}>
+                  +{writeCount} written
+                </span>
+                <span className={`text-[10px] px-1.5 py-0.5 rounded ${darkMode ? 'bg-red-900/50 text-red-400' : 'bg-red-100 text-red-700'}`}>
+                  −{deleteCount} deleted
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="w-40">
+              <CustomSelect
+                value={typeFilter}
+                onChange={setTypeFilter}
+                options={typeOptions}
+                placeholder="All types"
+                color="purple"
+                size="sm"
+                darkMode={darkMode}
+              />
+            </div>
+            <input
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              title="Only show changes after this time"
+              className={`px-2 py-1 text-xs border rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-violet-500 ${
+                darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-200 text-gray-700'
+              }`}
+            />
+            {startTime && (
+              <button
+                onClick={() => setStartTime('')}
+                className={`p-1 rounded transition-colors ${darkMode ? 'text-gray-500 hover:text-gray-300 hover:bg-gray-700' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}`}
+                title="Clear start time"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={loadChanges}
+              disabled={isLoading}
+              className={`p-1.5 rounded-lg disabled:opacity-50 transition-colors ${darkMode ? 'text-gray-400 hover:text-violet-400 hover:bg-gray-700' : 'text-gray-500 hover:text-violet-600 hover:bg-violet-50'}`}
+              title="Refresh"
+            >
+              <svg className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-xs text-red-700">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div className="flex-1 overflow-auto p-3">
+        {isLoading && changes.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <svg className="animate-spin h-6 w-6 text-violet-600" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+            </svg>
+          </div>
+        ) : changes.length === 0 ? (
+          <div className={`text-center py-12 ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+            <p className="text-sm">No changes found.</p>
+            {(typeFilter || startTime) && (
+              <p className="text-xs mt-1">Try clearing the type or start time filter.</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groupedChanges.map((group) => (
+              <div key={group.day}>
+                <div className={`sticky top-0 z-10 mb-2 text-[10px] font-semibold uppercase tracking-wide px-2 py-1 rounded ${darkMode ? 'bg-gray-900 text-gray-400' : 'bg-gray-100 text-gray-500'}`}>
+                  {group.day}
+                  <span className="ml-2 font-normal normal-case">({group.changes.length})</span>
+                </div>
+                <ol className={`relative ml-3 border-l ${darkMode ? 'border-gray-700' : 'border-gray-200'} space-y-2`}>
+                  {group.changes.map((change, index) => {
+                    const isWrite = change.operation === 'TUPLE_OPERATION_WRITE';
+                    return (
+                      <li key={`${change.timestamp}-${index}`} className="ml-4">
+                        <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 ${darkMode ? 'border-gray-800' : 'border-white'} ${isWrite ? 'bg-emerald-500' : 'bg-red-500'}`} />
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span
+                            className={`text-[10px] font-mono ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}
+                            title={formatDateTime(change.timestamp)}
+                          >
+                            {new Date(change.timestamp).toLocaleTimeString()}
+                          </span>
+                          <span className={`px-1.5 py-0.5 text-[10px] font-semibold rounded ${
+                            isWrite
+                              ? darkMode ? 'bg-emerald-900/50 text-emerald-400' : 'bg-emerald-100 text-emerald-700'
+                              : darkMode ? 'bg-red-900/50 text-red-400' : 'bg-red-100 text-red-700'
+                          }`}>
+                            {isWrite ? 'WRITE' : 'DELETE'}
+                          </span>
+                          <code className={`text-xs px-1.5 py-0.5 rounded ${darkMode ? 'bg-blue-900/50 text-blue-300' : 'bg-blue-50 text-blue-600'}`}>{change.tuple_key.user}</code>
+                          <span className={`text-xs font-medium ${darkMode ? 'text-green-400' : 'text-green-700'}`}>{change.tuple_key.relation}</span>
+                          <code className={`text-xs px-1.5 py-0.5 rounded ${darkMode ? 'bg-purple-900/50 text-purple-300' : 'bg-purple-50 text-purple-600'}`}>{change.tuple_key.object}</code>
+                          {change.tuple_key.condition && (
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded ${darkMode ? 'bg-amber-900/50 text-amber-400' : 'bg-amber-100 text-amber-700'}`}>
+                              if {change.tuple_key.condition.name}
+                            </span>
+                          )}
+                          <span className={`text-[10px] ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                            {formatRelativeTime(change.timestamp)}
+                          </span>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))}
+
+            {hasMore && (
+              <div className="text-center pt-2">
+                <button
+                  onClick={loadMoreChanges}
+                  disabled={loadingMore}
+                  className={`px-3 py-1.5 text-xs rounded-lg transition-colors disabled:opacity-50 ${darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                >
+                  {loadingMore ? 'Loading...' : 'Load more changes'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
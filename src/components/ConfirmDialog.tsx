@@ -1,4 +1,5 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
 
 interface ConfirmDialogProps {
   isOpen: boolean;
@@ -9,6 +10,9 @@ interface ConfirmDialogProps {
   confirmText?: string;
   cancelText?: string;
   variant?: 'danger' | 'warning' | 'info';
+  // Text the user must type before the confirm button is enabled
+  confirmationText?: string;
+  children?: ReactNode;
 }
 
 export function ConfirmDialog({
@@ -20,14 +24,26 @@ export function ConfirmDialog({
   confirmText = 'Confirm',
   cancelText = 'Cancel',
   variant = 'danger',
+  confirmationText,
+  children,
 }: ConfirmDialogProps) {
   const dialogRef = useRef<HTMLDivElement>(null);
   const confirmButtonRef = useRef<HTMLButtonElement>(null);
+  const [typedText, setTypedText] = useState('');
+
+  const isConfirmable = !confirmationText || typedText === confirmationText;
+
+  useEffect(() => {
+    setTypedText('');
+  }, [isOpen, confirmationText]);
 
   useEffect(() => {
     if (isOpen) {
-      // Focus the cancel button by default for safety
-      confirmButtonRef.current?.focus();
+      // Focus the cancel button by default for safety; a typed confirmation
+      // keeps focus on its input instead
+      if (!confirmationText) {
+        confirmButtonRef.current?.focus();
+      }
       
       // Prevent body scroll
       document.body.style.overflow = 'hidden';
@@ -36,7 +52,7 @@ export function ConfirmDialog({
     return () => {
       document.body.style.overflow = '';
     };
-  }, [isOpen]);
+  }, [isOpen, confirmationText]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -107,6 +123,29 @@ export function ConfirmDialog({
             <div className="flex-1 pt-1">
               <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
               <p className="mt-2 text-sm text-gray-600">{message}</p>
+              {confirmationText && (
+                <div className="mt-3">
+                  <label className="block text-xs text-gray-600 mb-1">
+                    Type <code className="px-1 py-0.5 bg-gray-100 rounded font-mono text-gray-800">{confirmationText}</code> to confirm
+                  </label>
+                  <input
+                    type="text"
+                    value={typedText}
+                    onChange={(e) => setTypedText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && isConfirmable) {
+                        onConfirm();
+                        onClose();
+                      }
+                    }}
+                    autoFocus
+                    autoComplete="off"
+                    spellCheck={false}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                </div>
+              )}
+              {children}
             </div>
           </div>
         </div>
@@ -125,7 +164,8 @@ export function ConfirmDialog({
               onConfirm();
               onClose();
             }}
-            className={`px-4 py-2.5 text-sm font-medium text-white rounded-xl transition-all ${styles.confirmButton}`}
+            disabled={!isConfirmable}
+            className={`px-4 py-2.5 text-sm font-medium text-white rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed ${styles.confirmButton}`}
           >
             {confirmText}
           </button>
@@ -136,7 +176,6 @@ export function ConfirmDialog({
 }
 
 // Hook for easier usage
-import { useCallback, useState } from 'react';
 
 export function useConfirmDialog() {
   const [dialogState, setDialogState] = useState<{
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { healthMonitor } from '../services/health-monitor';
+import type { HealthState } from '../services/health-monitor';
+
+interface HealthIndicatorProps {
+  serverUrl: string;
+}
+
+// Subscribe to the server health monitor
+export function useHealthState(): HealthState {
+  const [state, setState] = useState<HealthState>(healthMonitor.getState());
+  useEffect(() => healthMonitor.subscribe(setState), []);
+  return state;
+}
+
+// Seconds until the next check, ticking while the server is failing
+function useRetryCountdown(state: HealthState): number | null {
+  const [now, setNow] = useState(Date.now());
+  const failing = state.consecutiveFailures > 0;
+
+  useEffect(() => {
+    if (!failing) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [failing]);
+
+  if (!failing || !state.nextCheckAt) return null;
+  return Math.max(0, Math.ceil((state.nextCheckAt - now) / 1000));
+}
+
+const STATUS_STYLES: Record<HealthState['status'], { dot: string; label: string }> = {
+  unknown: { dot: 'bg-green-400 animate-pulse', label: 'Connected to:' },
+  healthy: { dot: 'bg-green-400 animate-pulse', label: 'Connected to:' },
+  degraded: { dot: 'bg-amber-300', label: 'Degraded:' },
+  offline: { dot: 'bg-red-400', label: 'Offline:' },
+};
+
+// Header status pill with the server's health and measured latency
+export function HealthIndicator({ serverUrl }: HealthIndicatorProps) {
+  const state = useHealthState();
+  const retryIn = useRetryCountdown(state);
+  const { dot, label } = STATUS_STYLES[state.status];
+
+  const title = state.consecutiveFailures > 0
+    ? `Health check failed ${state.consecutiveFailures} time(s). Click to retry now.`
+    : state.lastCheckedAt
+      ? `Last health check at ${new Date(state.lastCheckedAt).toLocaleTimeString()}`
+      : 'Checking server health...';
+
+  return (
+    <button
+      onClick={() => healthMonitor.checkNow()}
+      className="flex items-center gap-2 px-3 py-1.5 bg-white/15 rounded-lg backdrop-blur-sm hover:bg-white/20 transition-colors"
+      title={title}
+    >
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      <span className="text-white/90 text-xs font-medium">{label}</span>
+      <code className="text-white text-xs font-mono bg-white/10 px-2 py-0.5 rounded">
+        {serverUrl}
+      </code>
+      {state.latencyMs !== undefined && (
+        <span className="text-white/70 text-[10px] font-mono">{state.latencyMs} ms</span>
+      )}
+      {retryIn !== null && (
+        <span className="text-white/70 text-[10px]">retry in {retryIn}s</span>
+      )}
+    </button>
+  );
+}
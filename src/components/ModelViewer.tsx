@@ -1,14 +1,19 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import openfgaApi from '../services/openfga-api';
+import openfgaApi, { isAbortError } from '../services/openfga-api';
 import { useAppStore } from '../store/app-store';
 import type { AuthorizationModel, TypeDefinition, Userset } from '../types/openfga';
-import { modelToDSLForEdit, parseDSL } from '../utils/dsl-parser';
+import type { ApiErrorDescription } from '../utils/api-errors';
+import { describeApiError } from '../utils/api-errors';
+import { modelToDSLForEdit, parseDSL, validateDSL } from '../utils/dsl-parser';
 import { extractTimestampFromULID, formatDateTime, formatRelativeTime } from '../utils/ulid';
 import { CopyButton } from './CopyButton';
 import { CustomSelect } from './CustomSelect';
 
+// Upper bound for "Load all" on stores with a very long model history
+const LOAD_ALL_MAX_MODELS = 1000;
+
 interface ModelViewerProps {
   darkMode?: boolean;
 }
@@ -20,128 +25,62 @@ export function ModelViewer({ darkMode = false }: ModelViewerProps) {
     selectedModel, 
     setSelectedModel, 
     modelsLoading,
-    setAuthorizationModels 
+    setAuthorizationModels,
+    modelsContinuationToken,
+    setModelsContinuationToken,
   } = useAppStore();
   const [viewMode, setViewMode] = useState<'visual' | 'json' | 'dsl' | 'edit'>('visual');
   const [editContent, setEditContent] = useState('');
   const [isSaving, setIsSaving] = useState(false);
-  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<ApiErrorDescription | null>(null);
   const [saveSuccess, setSaveSuccess] = useState<string | null>(null);
   const [isNewModel, setIsNewModel] = useState(false);
   const [showSaveMenu, setShowSaveMenu] = useState(false);
   const [showSyntaxRef, setShowSyntaxRef] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const highlightRef = useRef<HTMLDivElement>(null);
+  const [loadAllCount, setLoadAllCount] = useState<number | null>(null);
+  const loadAllControllerRef = useRef<AbortController | null>(null);
 
-  // Live DSL validation
-  const dslErrors = useMemo(() => {
-    if (!editContent.trim()) return [];
-    
-    const errors: { line: number; message: string }[] = [];
-    const lines = editContent.split('\n');
-    
-    let hasModel = false;
-    let hasSchema = false;
-    let currentType: string | null = null;
-    let inRelations = false;
-    
-    lines.forEach((line, index) => {
-      const trimmed = line.trim();
-      const lineNum = index + 1;
-      
-      if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//')) return;
-      
-      // Check for model declaration
-      if (trimmed === 'model') {
-        if (hasModel) {
-          errors.push({ line: lineNum, message: 'Duplicate "model" declaration' });
-        }
-        hasModel = true;
-        return;
-      }
-      
-      // Check for schema version
-      if (trimmed.startsWith('schema ')) {
-        if (!hasModel) {
-          errors.push({ line: lineNum, message: '"schema" must come after "model"' });
-        }
-        if (hasSchema) {
-          errors.push({ line: lineNum, message: 'Duplicate "schema" declaration' });
-        }
-        const version = trimmed.replace('schema ', '').trim();
-        if (version !== '1.1' && version !== '1.0') {
-          errors.push({ line: lineNum, message: `Invalid schema version "${version}". Use "1.1"` });
-        }
-        hasSchema = true;
-        return;
-      }
-      
-      // Check for type declaration
-      if (trimmed.startsWith('type ')) {
-        if (!hasModel) {
-          errors.push({ line: lineNum, message: '"type" must come after "model" declaration' });
-        }
-        const typeName = trimmed.replace('type ', '').trim();
-        if (!typeName) {
-          errors.push({ line: lineNum, message: 'Type name is required' });
-        } else if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(typeName)) {
-          errors.push({ line: lineNum, message: `Invalid type name "${typeName}"` });
-        }
-        currentType = typeName;
-        inRelations = false;
-        return;
-      }
-      
-      // Check for relations block
-      if (trimmed === 'relations') {
-        if (!currentType) {
-          errors.push({ line: lineNum, message: '"relations" must be inside a type definition' });
-        }
-        inRelations = true;
-        return;
-      }
-      
-      // Check for define statement
-      if (trimmed.startsWith('define ')) {
-        if (!inRelations) {
-          errors.push({ line: lineNum, message: '"define" must be inside a "relations" block' });
-        }
-        const defineContent = trimmed.replace('define ', '');
-        if (!defineContent.includes(':')) {
-          errors.push({ line: lineNum, message: 'Invalid define syntax. Expected "define name: expression"' });
-        } else {
-          const [name] = defineContent.split(':');
-          if (!name.trim()) {
-            errors.push({ line: lineNum, message: 'Relation name is required' });
-          } else if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name.trim())) {
-            errors.push({ line: lineNum, message: `Invalid relation name "${name.trim()}"` });
-          }
-        }
-        return;
-      }
-      
-      // Check for condition
-      if (trimmed.startsWith('condition ')) {
-        inRelations = false;
-        currentType = null;
-        return;
+  useEffect(() => () => loadAllControllerRef.current?.abort(), []);
+
+  // Fetch the model versions past the first page
+  const handleLoadAllModels = async () => {
+    if (!selectedStore || !modelsContinuationToken) return;
+    const controller = new AbortController();
+    loadAllControllerRef.current = controller;
+    let models = authorizationModels;
+    setLoadAllCount(models.length);
+    try {
+      for await (const page of openfgaApi.iterateModels(selectedStore.id, {
+        continuationToken: modelsContinuationToken,
+        maxItems: LOAD_ALL_MAX_MODELS - models.length,
+        signal: controller.signal,
+      })) {
+        models = [...models, ...page.items];
+        setAuthorizationModels(models);
+        setModelsContinuationToken(page.continuationToken);
+        setLoadAllCount(models.length);
       }
-      
-      // Unknown line (not indentation or known keyword)
-      if (trimmed && !line.startsWith(' ') && !line.startsWith('\t')) {
-        errors.push({ line: lineNum, message: `Unknown keyword or invalid syntax: "${trimmed.substring(0, 20)}..."` });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Failed to load all models:', err);
       }
-    });
-    
-    // Global validations
-    if (editContent.trim() && !hasModel) {
-      errors.unshift({ line: 1, message: 'Model must start with "model" declaration' });
-    }
-    if (hasModel && !hasSchema) {
-      errors.push({ line: 2, message: 'Missing "schema 1.1" after model declaration' });
+    } finally {
+      loadAllControllerRef.current = null;
+      setLoadAllCount(null);
     }
-    
-    return errors;
+  };
+
+  // Live DSL validation; each error covers the lines from `line` to `endLine`
+  const dslErrors = useMemo(() => {
+    if (!editContent.trim()) return [];
+    return validateDSL(editContent).map(({ message, range }) => ({
+      line: range.start.line,
+      column: range.start.column,
+      endLine: range.end.line,
+      message,
+    }));
   }, [editContent]);
 
   // Initialize edit content when model changes or entering edit mode
@@ -199,6 +138,7 @@ export function ModelViewer({ darkMode = false }: ModelViewerProps) {
       // Refresh the models list
       const response = await openfgaApi.listAuthorizationModels(selectedStore.id);
       setAuthorizationModels(response.authorization_models);
+      setModelsContinuationToken(response.continuation_token || null);
       
       // Select the newly created model if setAsLatest is true
       const newModel = response.authorization_models.find(m => m.id === result.authorization_model_id);
@@ -215,7 +155,7 @@ export function ModelViewer({ darkMode = false }: ModelViewerProps) {
       // Switch to visual view after successful save
       setTimeout(() => setViewMode('visual'), 1500);
     } catch (error) {
-      setSaveError(error instanceof Error ? error.message : 'Failed to save model');
+      setSaveError(describeApiError(error, 'Failed to save model'));
     } finally {
       setIsSaving(false);
     }
@@ -289,7 +229,9 @@ type document
       .join(', ');
   };
 
-  const usersetToString = (userset: Userset, _typeDef: TypeDefinition, _relationName: string): string => {
+  // Nested operators get parentheses; the DSL has no precedence between them
+  const usersetToString = (userset: Userset, _typeDef: TypeDefinition, _relationName: string, nested = false): string => {
+    const group = (expression: string) => (nested ? `(${expression})` : expression);
     if (userset.this) {
       return '[direct]';
     }
@@ -299,20 +241,20 @@ type document
     if (userset.tupleToUserset) {
       const tupleset = userset.tupleToUserset.tupleset?.relation || '';
       const computed = userset.tupleToUserset.computedUserset?.relation || '';
-      return `${tupleset}->${computed}`;
+      return `${computed} from ${tupleset}`;
     }
     if (userset.union) {
       const children = userset.union.child || [];
-      return children.map((c) => usersetToString(c, _typeDef, _relationName)).join(' or ');
+      return group(children.map((c) => usersetToString(c, _typeDef, _relationName, true)).join(' or '));
     }
     if (userset.intersection) {
       const children = userset.intersection.child || [];
-      return children.map((c) => usersetToString(c, _typeDef, _relationName)).join(' and ');
+      return group(children.map((c) => usersetToString(c, _typeDef, _relationName, true)).join(' and '));
     }
     if (userset.difference) {
-      const base = usersetToString(userset.difference.base || {}, _typeDef, _relationName);
-      const subtract = usersetToString(userset.difference.subtract || {}, _typeDef, _relationName);
-      return `${base} but not ${subtract}`;
+      const base = usersetToString(userset.difference.base || {}, _typeDef, _relationName, true);
+      const subtract = usersetToString(userset.difference.subtract || {}, _typeDef, _relationName, true);
+      return group(`${base} but not ${subtract}`);
     }
     return '[unknown]';
   };
@@ -352,6 +294,23 @@ type document
                 {selectedModel && (
                   <CopyButton text={selectedModel.id} label="Model ID" className="!p-1" />
                 )}
+                {loadAllCount !== null ? (
+                  <button
+                    onClick={() => loadAllControllerRef.current?.abort()}
+                    className="px-2 py-1 text-xs text-gray-600 bg-white/80 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+                    title="Stop loading"
+                  >
+                    Loaded {loadAllCount}… Stop
+                  </button>
+                ) : modelsContinuationToken && authorizationModels.length < LOAD_ALL_MAX_MODELS && (
+                  <button
+                    onClick={handleLoadAllModels}
+                    className="px-2 py-1 text-xs text-purple-600 bg-white/80 border border-purple-200 rounded-lg hover:bg-purple-50 transition-colors"
+                    title={`Only the newest ${authorizationModels.length} versions are listed; load the rest (up to ${LOAD_ALL_MAX_MODELS})`}
+                  >
+                    Load all versions
+                  </button>
+                )}
                 {/* Model Timestamp */}
                 {modelCreatedAt && (
                   <div 
@@ -562,7 +521,15 @@ type document
                   </svg>
                   <div className="flex-1">
                     <div className="text-sm font-semibold text-red-700">Save Error</div>
-                    <div className="text-sm text-red-600 mt-0.5">{saveError}</div>
+                    <div className="text-sm text-red-600 mt-0.5">{saveError.message}</div>
+                    {saveError.hint && (
+                      <div className="text-xs text-red-500 mt-1">{saveError.hint}</div>
+                    )}
+                    {(saveError.code || saveError.requestId) && (
+                      <div className="text-[10px] font-mono text-red-400 mt-1">
+                        {[saveError.code, saveError.status && `HTTP ${saveError.status}`, saveError.requestId && `request ${saveError.requestId}`].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
                   </div>
                   <button 
                     onClick={() => setSaveError(null)}
@@ -583,12 +550,12 @@ type document
                 <div className="flex-shrink-0 bg-gray-800 text-gray-500 text-right select-none font-mono text-sm py-4 px-2 border-r border-gray-700" style={{ lineHeight: '1.6', fontSize: '14px' }}>
                   {editContent.split('\n').map((_, i) => {
                     const lineNum = i + 1;
-                    const hasError = dslErrors.some(e => e.line === lineNum);
+                    const lineError = dslErrors.find(e => lineNum >= e.line && lineNum <= e.endLine);
                     return (
                       <div 
                         key={i} 
-                        className={`px-1 ${hasError ? 'bg-red-500/30 text-red-400' : ''}`}
-                        title={hasError ? dslErrors.find(e => e.line === lineNum)?.message : undefined}
+                        className={`px-1 ${lineError ? 'bg-red-500/30 text-red-400' : ''}`}
+                        title={lineError?.message}
                       >
                         {lineNum}
                       </div>
@@ -607,7 +574,7 @@ type document
                   >
                     <pre className="font-mono text-sm m-0" style={{ lineHeight: '1.6', fontSize: '14px', fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Menlo, Consolas, monospace' }}>
                       {editContent.split('\n').map((line, i) => {
-                        const hasError = dslErrors.some(e => e.line === i + 1);
+                        const hasError = dslErrors.some(e => i + 1 >= e.line && i + 1 <= e.endLine);
                         return (
                           <div key={i} className={hasError ? 'bg-red-500/20' : ''}>
                             {highlightDSLLine(line)}
@@ -673,7 +640,7 @@ type document
                 <div className="space-y-1">
                   {dslErrors.map((error, i) => (
                     <div key={i} className="text-xs text-red-600 flex items-start gap-2">
-                      <span className="font-mono bg-red-100 px-1.5 py-0.5 rounded text-red-700">Line {error.line}</span>
+                      <span className="font-mono bg-red-100 px-1.5 py-0.5 rounded text-red-700 whitespace-nowrap">Ln {error.line}, Col {error.column}</span>
                       <span>{error.message}</span>
                     </div>
                   ))}
@@ -712,8 +679,9 @@ type document
                     <div><span className="text-purple-600 font-semibold">[user, group#member]</span> - Multiple types</div>
                     <div><span className="text-purple-600 font-semibold">viewer or owner</span> - Union (OR)</div>
                     <div><span className="text-purple-600 font-semibold">viewer and owner</span> - Intersection (AND)</div>
-                    <div><span className="text-purple-600 font-semibold">parent-&gt;viewer</span> - Tuple to userset</div>
+                    <div><span className="text-purple-600 font-semibold">viewer from parent</span> - Tuple to userset (legacy: parent-&gt;viewer)</div>
                     <div><span className="text-purple-600 font-semibold">viewer but not blocked</span> - Exclusion</div>
+                    <div><span className="text-purple-600 font-semibold">(viewer or editor) and allowed</span> - Grouping; required to mix operators</div>
                   </div>
                   <a 
                     href="https://openfga.dev/docs/configuration-language" 
@@ -1114,7 +1082,20 @@ function highlightExpression(expr: string): React.ReactNode {
     }
     if (matched) continue;
     
-    // Check for tuple to userset (parent->viewer)
+    // Check for tuple to userset (viewer from parent)
+    const fromMatch = remaining.match(/^(\s*)([a-zA-Z_][a-zA-Z0-9_-]*)(\s+)(from)(\s+)([a-zA-Z_][a-zA-Z0-9_-]*)/);
+    if (fromMatch) {
+      parts.push(<span key={key++} className="text-gray-400">{fromMatch[1]}</span>);
+      parts.push(<span key={key++} className="text-cyan-300">{fromMatch[2]}</span>);
+      parts.push(<span key={key++} className="text-gray-400">{fromMatch[3]}</span>);
+      parts.push(<span key={key++} className="text-pink-400 font-semibold">{fromMatch[4]}</span>);
+      parts.push(<span key={key++} className="text-gray-400">{fromMatch[5]}</span>);
+      parts.push(<span key={key++} className="text-cyan-300">{fromMatch[6]}</span>);
+      remaining = remaining.substring(fromMatch[0].length);
+      continue;
+    }
+
+    // Legacy tuple to userset (parent->viewer)
     const ttuMatch = remaining.match(/^\s*([a-zA-Z_][a-zA-Z0-9_]*)->([a-zA-Z_][a-zA-Z0-9_]*)/);
     if (ttuMatch) {
       parts.push(<span key={key++} className="text-gray-400">{remaining.match(/^\s*/)?.[0]}</span>);
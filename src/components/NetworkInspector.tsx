@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from 'react';
+import openfgaApi from '../services/openfga-api';
+import { networkLog } from '../services/network-log';
+import type { NetworkLogEntry } from '../types/openfga';
+import { isSensitiveHeader, redactHeaderValue, toCurl } from '../utils/curl';
+import { CopyButton } from './CopyButton';
+
+interface NetworkInspectorProps {
+  onClose: () => void;
+  darkMode?: boolean;
+}
+
+// Subscribe to the shared request log
+function useNetworkLog(): NetworkLogEntry[] {
+  const [entries, setEntries] = useState<NetworkLogEntry[]>(networkLog.getEntries());
+  useEffect(() => networkLog.subscribe(setEntries), []);
+  return entries;
+}
+
+// Request count for the header button. Its own component, so only the badge
+// re-renders on every API call instead of the whole app.
+export function NetworkRequestCount() {
+  const entries = useNetworkLog();
+  if (entries.length === 0) return null;
+  return <span className="text-[10px] font-medium text-white/90">{entries.length}</span>;
+}
+
+function formatBody(body?: string): string {
+  if (!body) return '';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function statusClasses(entry: NetworkLogEntry, darkMode: boolean): string {
+  if (entry.error || !entry.status) {
+    return darkMode ? 'bg-red-900/50 text-red-400' : 'bg-red-100 text-red-700';
+  }
+  if (entry.status >= 400) {
+    return darkMode ? 'bg-amber-900/50 text-amber-400' : 'bg-amber-100 text-amber-700';
+  }
+  return darkMode ? 'bg-emerald-900/50 text-emerald-400' : 'bg-emerald-100 text-emerald-700';
+}
+
+export function NetworkInspector({ onClose, darkMode = false }: NetworkInspectorProps) {
+  const entries = useNetworkLog();
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [redact, setRedact] = useState(true);
+  const [replaying, setReplaying] = useState(false);
+
+  const filteredEntries = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const newestFirst = [...entries].reverse();
+    if (!term) return newestFirst;
+    return newestFirst.filter(e =>
+      [e.method, e.endpoint, e.status?.toString(), e.requestBody, e.responseBody, e.error]
+        .some(value => value?.toLowerCase().includes(term))
+    );
+  }, [entries, search]);
+
+  const selected = entries.find(e => e.id === selectedId) || null;
+
+  const handleReplay = async () => {
+    if (!selected) return;
+    setReplaying(true);
+    try {
+      await openfgaApi.replay(selected);
+    } catch {
+      // The failed replay is recorded in the log like any other request
+    } finally {
+      setReplaying(false);
+      // Jump to the replayed request
+      const latest = networkLog.getEntries();
+      setSelectedId(latest[latest.length - 1]?.id ?? null);
+    }
+  };
+
+  const panelClasses = darkMode ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800';
+  const mutedText = darkMode ? 'text-gray-500' : 'text-gray-400';
+
+  return (
+    <div className={`h-72 flex-shrink-0 border-t flex flex-col ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+      {/* Toolbar */}
+      <div className={`flex items-center gap-2 px-3 py-1.5 border-b ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+        <span className={`text-xs font-semibold ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Network</span>
+        <span className={`text-[10px] ${mutedText}`}>{entries.length} requests</span>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter by endpoint, status or body..."
+          className={`flex-1 max-w-xs px-2 py-1 text-xs border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 ${
+            darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-gray-50 border-gray-200'
+          }`}
+        />
+        <label className={`flex items-center gap-1 text-xs cursor-pointer ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          <input
+            type="checkbox"
+            checked={redact}
+            onChange={(e) => setRedact(e.target.checked)}
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Redact secrets
+        </label>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => { networkLog.clear(); setSelectedId(null); }}
+            className={`px-2 py-1 text-xs rounded transition-colors ${darkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'}`}
+          >
+            Clear
+          </button>
+          <button
+            onClick={onClose}
+            className={`p-1 rounded transition-colors ${darkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'}`}
+            title="Close inspector"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Request list */}
+        <div className={`w-1/2 overflow-auto border-r ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+          {filteredEntries.length === 0 ? (
+            <p className={`text-xs text-center py-8 ${mutedText}`}>
+              {entries.length === 0 ? 'No requests yet.' : 'No requests match the filter.'}
+            </p>
+          ) : (
+            filteredEntries.map((entry) => (
+              <button
+                key={entry.id}
+                onClick={() => setSelectedId(entry.id)}
+                className={`w-full px-3 py-1 flex items-center gap-2 text-left text-xs font-mono border-b transition-colors ${
+                  darkMode ? 'border-gray-700/50' : 'border-gray-50'
+                } ${
+                  entry.id === selectedId
+                    ? darkMode ? 'bg-purple-900/40' : 'bg-purple-50'
+                    : darkMode ? 'hover:bg-gray-700/50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className={`w-12 flex-shrink-0 font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{entry.method}</span>
+                <span className={`px-1 rounded text-[10px] flex-shrink-0 ${statusClasses(entry, darkMode)}`}>
+                  {entry.status ?? 'ERR'}
+                </span>
+                <span className={`flex-1 truncate ${darkMode ? 'text-gray-300' : 'text-gray-700'}`} title={entry.endpoint}>
+                  {entry.endpoint}
+                </span>
+                <span className={`flex-shrink-0 text-[10px] ${mutedText}`}>{entry.durationMs} ms</span>
+                <span className={`flex-shrink-0 text-[10px] ${mutedText}`}>
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Request details */}
+        <div className="w-1/2 overflow-auto p-3 space-y-3">
+          {!selected ? (
+            <p className={`text-xs text-center py-8 ${mutedText}`}>Select a request to see its details.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <code className={`flex-1 text-xs truncate ${darkMode ? 'text-gray-300' : 'text-gray-700'}`} title={selected.url}>
+                  {selected.method} {selected.url}
+                </code>
+                <CopyButton text={toCurl(selected, redact)} label="as curl" className="!p-1.5" />
+                <button
+                  onClick={handleReplay}
+                  disabled={replaying}
+                  className="px-2.5 py-1 text-xs font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                  title="Send this request again with the current connection"
+                >
+                  {replaying ? 'Replaying...' : 'Replay'}
+                </button>
+              </div>
+
+              {selected.error && (
+                <div className="p-2 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-xs text-red-700">{selected.error}</p>
+                </div>
+              )}
+
+              <div>
+                <h5 className={`text-[10px] font-semibold uppercase tracking-wide mb-1 ${mutedText}`}>Request Headers</h5>
+                <div className={`p-2 rounded-lg border text-[11px] font-mono space-y-0.5 ${panelClasses}`}>
+                  {Object.entries(selected.requestHeaders).map(([name, value]) => (
+                    <div key={name} className="break-all">
+                      <span className={darkMode ? 'text-purple-300' : 'text-purple-700'}>{name}:</span>{' '}
+                      {redact && isSensitiveHeader(selected, name) ? redactHeaderValue(value) : value}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {selected.requestBody && (
+                <div>
+                  <h5 className={`text-[10px] font-semibold uppercase tracking-wide mb-1 ${mutedText}`}>Request Body</h5>
+                  <pre className={`p-2 rounded-lg border text-[11px] font-mono whitespace-pre-wrap break-all ${panelClasses}`}>
+                    {formatBody(selected.requestBody)}
+                  </pre>
+                </div>
+              )}
+
+              {selected.responseBody !== undefined && (
+                <div>
+                  <h5 className={`text-[10px] font-semibold uppercase tracking-wide mb-1 ${mutedText}`}>
+                    Response Body · {selected.status}
+                  </h5>
+                  <pre className={`p-2 rounded-lg border text-[11px] font-mono whitespace-pre-wrap break-all ${panelClasses}`}>
+                    {formatBody(selected.responseBody) || '(empty)'}
+                  </pre>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
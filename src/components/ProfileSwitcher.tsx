@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { useAppStore } from '../store/app-store';
+
+interface ProfileSwitcherProps {
+  darkMode?: boolean;
+}
+
+// Header dropdown that reconnects to another saved connection profile
+export function ProfileSwitcher({ darkMode = false }: ProfileSwitcherProps) {
+  const { profiles, activeProfileId, switchProfile, storesLoading } = useAppStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = () => setIsOpen(false);
+    if (isOpen) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={(e) => { e.stopPropagation(); setIsOpen(!isOpen); }}
+        className={`px-2.5 py-1.5 rounded-lg transition-colors flex items-center gap-1.5 text-xs font-medium text-white ${isOpen ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+        title="Switch connection profile"
+      >
+        <span
+          className="w-2.5 h-2.5 rounded-full border border-white/50"
+          style={{ backgroundColor: activeProfile?.color || 'transparent' }}
+        />
+        <span className="max-w-[8rem] truncate">{activeProfile?.name || 'Profiles'}</span>
+        {storesLoading ? (
+          <svg className="animate-spin w-3 h-3" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+        ) : (
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 mt-1 w-60 rounded-lg shadow-xl border py-1 z-50 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              onClick={() => {
+                setIsOpen(false);
+                if (profile.id !== activeProfileId) {
+                  switchProfile(profile.id);
+                }
+              }}
+              className={`w-full px-3 py-2 flex items-center gap-2 text-left transition-colors ${
+                profile.id === activeProfileId
+                  ? darkMode ? 'bg-purple-900/40' : 'bg-purple-50'
+                  : darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: profile.color }} />
+              <span className="flex-1 min-w-0">
+                <span className={`block text-xs font-medium truncate ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{profile.name}</span>
+                <span className={`block text-[10px] font-mono truncate ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{profile.connection.serverUrl}</span>
+              </span>
+              {profile.id === activeProfileId && (
+                <svg className={`w-3.5 h-3.5 flex-shrink-0 ${darkMode ? 'text-purple-400' : 'text-purple-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
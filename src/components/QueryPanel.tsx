@@ -2,15 +2,18 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import openfgaApi from '../services/openfga-api';
+import openfgaApi, { isAbortError } from '../services/openfga-api';
 import { useAppStore } from '../store/app-store';
 import { useSavedQueriesStore } from '../store/saved-queries-store';
-import type { AuthorizationModel, CheckResponse, ExpandResponse, ListObjectsResponse, ListUsersResponse, SavedQuery, SavedQueryType, Tuple } from '../types/openfga';
+import { assertionsToSavedQueries, mergeAssertions, savedQueriesToAssertions } from '../utils/assertions';
+import type { AuthorizationModel, BatchCheckItem, BatchCheckSingleResult, CheckResponse, ConsistencyPreference, ExpandResponse, ListObjectsResponse, ListUsersResponse, RequestOptions, RetryAttempt, SavedQuery, SavedQueryType, Tuple } from '../types/openfga';
+import { ApiErrorNotice } from './ApiErrorNotice';
 import { ConfirmDialog, useConfirmDialog } from './ConfirmDialog';
 import { CopyButton } from './CopyButton';
 import { CustomSelect, InlineSelect } from './CustomSelect';
+import { CONSISTENCY_OPTIONS } from './SettingsPanel';
 
-type QueryType = 'check' | 'expand' | 'list-objects' | 'list-users';
+type QueryType = SavedQueryType | 'batch-check';
 
 // Helper to extract types and relations from model
 function useModelInfo(model: AuthorizationModel | null) {
@@ -95,17 +98,34 @@ interface QueryPanelProps {
   darkMode?: boolean;
 }
 
+// Why a tab or option is unavailable when the server lacks its endpoint
+const UNSUPPORTED_NOTES = {
+  listUsers: 'This server has no /list-users endpoint (added in OpenFGA v1.5.4)',
+  batchCheck: 'This server has no /batch-check endpoint (added in OpenFGA v1.8.0), so checks are sent one at a time',
+  streamedListObjects: 'This server has no /streamed-list-objects endpoint',
+};
+
 export function QueryPanel({ darkMode = false }: QueryPanelProps) {
-  const { selectedStore, selectedModel, tuples } = useAppStore();
-  const { getSavedQueries, importQueries, clearAllQueries } = useSavedQueriesStore();
+  const { selectedStore, selectedModel, tuples, capabilities } = useAppStore();
+  const { getSavedQueries, importQueries, clearAllQueries, addSavedQueries } = useSavedQueriesStore();
   const [activeQuery, setActiveQuery] = useState<QueryType>('check');
   const [showSavedQueries, setShowSavedQueries] = useState(true);
   const [loadedQuery, setLoadedQuery] = useState<SavedQuery | null>(null);
   const [showGlobalImportExport, setShowGlobalImportExport] = useState(false);
   const [globalImportError, setGlobalImportError] = useState<string | null>(null);
+  const [assertionsBusy, setAssertionsBusy] = useState<'publish' | 'pull' | null>(null);
+  const [assertionsStatus, setAssertionsStatus] = useState<{ success: boolean; message: string } | null>(null);
   const globalFileInputRef = useRef<HTMLInputElement>(null);
   const { dialogProps: globalDialogProps, confirm: globalConfirm } = useConfirmDialog();
 
+  // Leave the Users tab if the server turns out not to support it
+  useEffect(() => {
+    if (capabilities.listUsers === false && activeQuery === 'list-users') {
+      setActiveQuery('check');
+      setLoadedQuery(null);
+    }
+  }, [capabilities.listUsers, activeQuery]);
+
   if (!selectedStore) {
     return null;
   }
@@ -199,6 +219,67 @@ export function QueryPanel({ darkMode = false }: QueryPanelProps) {
     }
   };
 
+  // Publish saved checks with an expected result as assertions on the selected model
+  const handlePublishAssertions = async () => {
+    if (!selectedModel) return;
+    const localAssertions = savedQueriesToAssertions(allSavedQueries);
+
+    const confirmed = await globalConfirm({
+      title: 'Publish Assertions',
+      message: `Write ${localAssertions.length} check ${localAssertions.length === 1 ? 'query' : 'queries'} with an expected result as assertions on model ${selectedModel.id}? Existing assertions for other tuples are kept; matching ones are overwritten.`,
+      confirmText: 'Publish',
+      cancelText: 'Cancel',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    setAssertionsBusy('publish');
+    setAssertionsStatus(null);
+    try {
+      const existing = await openfgaApi.readAssertions(selectedStore.id, selectedModel.id);
+      const merged = mergeAssertions(existing.assertions || [], localAssertions);
+      await openfgaApi.writeAssertions(selectedStore.id, selectedModel.id, merged);
+      setAssertionsStatus({
+        success: true,
+        message: `Published ${localAssertions.length} assertions (${merged.length} total on model)`,
+      });
+    } catch (err) {
+      setAssertionsStatus({
+        success: false,
+        message: err instanceof Error ? err.message : 'Failed to publish assertions',
+      });
+    } finally {
+      setAssertionsBusy(null);
+    }
+  };
+
+  // Pull the selected model's assertions in as saved check queries
+  const handlePullAssertions = async () => {
+    if (!selectedModel) return;
+
+    setAssertionsBusy('pull');
+    setAssertionsStatus(null);
+    try {
+      const response = await openfgaApi.readAssertions(selectedStore.id, selectedModel.id);
+      const { queries, skipped } = assertionsToSavedQueries(response.assertions || [], allSavedQueries);
+      addSavedQueries(selectedStore.id, queries);
+      setAssertionsStatus({
+        success: true,
+        message: `Imported ${queries.length} new check ${queries.length === 1 ? 'query' : 'queries'}`
+          + (skipped > 0 ? ` (${skipped} with contextual tuples skipped)` : ''),
+      });
+    } catch (err) {
+      setAssertionsStatus({
+        success: false,
+        message: err instanceof Error ? err.message : 'Failed to read assertions',
+      });
+    } finally {
+      setAssertionsBusy(null);
+    }
+  };
+
+  const publishableCount = savedQueriesToAssertions(allSavedQueries).length;
+
   // Count queries by type
   const queryCounts = {
     check: allSavedQueries.filter(q => q.type === 'check').length,
@@ -223,17 +304,20 @@ export function QueryPanel({ darkMode = false }: QueryPanelProps) {
           <nav className="flex gap-1">
             {[
               { id: 'check', label: 'Check', icon: '✓', gradient: 'from-emerald-500 to-green-500' },
+              { id: 'batch-check', label: 'Batch', icon: '▦', gradient: 'from-emerald-500 to-green-500' },
               { id: 'expand', label: 'Expand', icon: '⤢', gradient: 'from-emerald-500 to-green-500' },
               { id: 'list-objects', label: 'Objects', icon: '📋', gradient: 'from-emerald-500 to-green-500' },
-              { id: 'list-users', label: 'Users', icon: '👥', gradient: 'from-emerald-500 to-green-500' },
+              { id: 'list-users', label: 'Users', icon: '👥', gradient: 'from-emerald-500 to-green-500', unsupported: capabilities.listUsers === false && UNSUPPORTED_NOTES.listUsers },
             ].map((tab) => (
               <button
                 key={tab.id}
                 onClick={() => { setActiveQuery(tab.id as QueryType); clearLoadedQuery(); }}
-                className={`px-3 py-2 text-xs font-medium rounded-lg transition-all ${
+                disabled={!!tab.unsupported}
+                title={tab.unsupported || undefined}
+                className={`px-3 py-2 text-xs font-medium rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
                   activeQuery === tab.id
                     ? `bg-gradient-to-r ${tab.gradient} text-white shadow`
-                    : darkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-600 hover:bg-white/50'
+                    : darkMode ? 'text-gray-400 hover:bg-gray-700 disabled:hover:bg-transparent' : 'text-gray-600 hover:bg-white/50 disabled:hover:bg-transparent'
                 }`}
               >
                 <span className="mr-1">{tab.icon}</span>
@@ -388,6 +472,64 @@ export function QueryPanel({ darkMode = false }: QueryPanelProps) {
                 Clear All
               </button>
             </div>
+
+            {/* Model Assertions */}
+            <div className={`mt-3 pt-3 border-t ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+              <div className="flex items-center justify-between mb-1">
+                <span className={`text-xs font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Model Assertions</span>
+                {selectedModel && (
+                  <code className={`text-[10px] font-mono ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{selectedModel.id}</code>
+                )}
+              </div>
+              <p className={`text-[10px] mb-2 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                {selectedModel
+                  ? 'Store check expectations on the server with the model, so they are shared instead of living in this browser.'
+                  : 'Select an authorization model to sync assertions.'}
+              </p>
+
+              {assertionsStatus && (
+                <div className={`mb-2 p-2 rounded-lg text-xs border ${
+                  assertionsStatus.success
+                    ? 'bg-emerald-50 border-emerald-200 text-emerald-700'
+                    : 'bg-red-50 border-red-200 text-red-700'
+                }`}>
+                  {assertionsStatus.message}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={handlePublishAssertions}
+                  disabled={!selectedModel || publishableCount === 0 || assertionsBusy !== null}
+                  className={`px-3 py-2 text-xs rounded-lg flex items-center justify-center gap-1.5 transition-colors disabled:opacity-50 ${
+                    darkMode
+                      ? 'bg-emerald-900/50 text-emerald-400 hover:bg-emerald-900'
+                      : 'bg-emerald-100 text-emerald-700 hover:bg-emerald-200'
+                  }`}
+                  title="Write check queries with an expected result as assertions on the selected model"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                  </svg>
+                  {assertionsBusy === 'publish' ? 'Publishing...' : `Publish to Model (${publishableCount})`}
+                </button>
+                <button
+                  onClick={handlePullAssertions}
+                  disabled={!selectedModel || assertionsBusy !== null}
+                  className={`px-3 py-2 text-xs rounded-lg flex items-center justify-center gap-1.5 transition-colors disabled:opacity-50 ${
+                    darkMode
+                      ? 'bg-blue-900/50 text-blue-400 hover:bg-blue-900'
+                      : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                  }`}
+                  title="Import the selected model's assertions as saved check queries"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+                  </svg>
+                  {assertionsBusy === 'pull' ? 'Pulling...' : 'Pull from Model'}
+                </button>
+              </div>
+            </div>
           </div>
         )}
       </div>
@@ -407,6 +549,15 @@ export function QueryPanel({ darkMode = false }: QueryPanelProps) {
               darkMode={darkMode}
             />
           )}
+          {activeQuery === 'batch-check' && (
+            <BatchCheckQuery
+              storeId={selectedStore.id}
+              model={selectedModel}
+              savedChecks={allSavedQueries.filter(q => q.type === 'check')}
+              unsupportedNote={capabilities.batchCheck === false ? UNSUPPORTED_NOTES.batchCheck : undefined}
+              darkMode={darkMode}
+            />
+          )}
           {activeQuery === 'expand' && (
             <ExpandQuery 
               storeId={selectedStore.id} 
@@ -424,6 +575,7 @@ export function QueryPanel({ darkMode = false }: QueryPanelProps) {
               tuples={tuples}
               loadedQuery={loadedQuery?.type === 'list-objects' ? loadedQuery : null}
               onClearLoaded={clearLoadedQuery}
+              streamUnsupportedNote={capabilities.streamedListObjects === false ? UNSUPPORTED_NOTES.streamedListObjects : undefined}
               darkMode={darkMode}
             />
           )}
@@ -446,7 +598,7 @@ export function QueryPanel({ darkMode = false }: QueryPanelProps) {
             modelId={selectedModel?.id}
             onLoadQuery={handleLoadQuery}
             activeQueryId={loadedQuery?.id}
-            activeQueryType={activeQuery}
+            activeQueryType={activeQuery === 'batch-check' ? 'check' : activeQuery}
             darkMode={darkMode}
           />
         )}
@@ -468,7 +620,7 @@ function SavedQueriesPanel({
   modelId?: string;
   onLoadQuery: (query: SavedQuery) => void;
   activeQueryId?: string;
-  activeQueryType: QueryType;
+  activeQueryType: SavedQueryType;
   darkMode?: boolean;
 }) {
   const { getSavedQueries, deleteSavedQuery, updateLastResult, reorderQueries, importQueries, clearAllQueries } = useSavedQueriesStore();
@@ -476,6 +628,7 @@ function SavedQueriesPanel({
   // Filter queries by active tab type
   const savedQueries = allSavedQueries.filter(q => q.type === activeQueryType);
   const [runningAll, setRunningAll] = useState(false);
+  const { beginQuery, cancelQuery } = useCancellableQuery();
   const [runningQueryId, setRunningQueryId] = useState<string | null>(null);
   const { dialogProps, confirm } = useConfirmDialog();
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
@@ -636,8 +789,10 @@ function SavedQueriesPanel({
     }
   };
 
-  const runSingleQuery = async (query: SavedQuery) => {
+  const runSingleQuery = async (query: SavedQuery, signal?: AbortSignal) => {
     setRunningQueryId(query.id);
+    let retries = 0;
+    const retryOptions: RequestOptions = { signal, onRetry: () => { retries++; } };
     try {
       let result: SavedQuery['lastResult'];
       
@@ -650,7 +805,8 @@ function SavedQueriesPanel({
           tuple_key: { user: query.user!, relation: query.relation!, object: query.object! },
           authorization_model_id: modelId,
           context: contextObj,
-        });
+          consistency: query.consistency,
+        }, retryOptions);
         result = {
           success: true,
           allowed: response.allowed,
@@ -660,7 +816,8 @@ function SavedQueriesPanel({
         await openfgaApi.expand(storeId, {
           tuple_key: { relation: query.relation!, object: query.object! },
           authorization_model_id: modelId,
-        });
+          consistency: query.consistency,
+        }, retryOptions);
         result = {
           success: true,
           timestamp: new Date().toISOString(),
@@ -676,7 +833,8 @@ function SavedQueriesPanel({
           type: query.objectType!,
           authorization_model_id: modelId,
           context: contextObj,
-        });
+          consistency: query.consistency,
+        }, retryOptions);
         result = {
           success: true,
           objects: response.objects,
@@ -693,7 +851,8 @@ function SavedQueriesPanel({
           user_filters: [{ type: query.userFilterType! }],
           authorization_model_id: modelId,
           context: contextObj,
-        });
+          consistency: query.consistency,
+        }, retryOptions);
         result = {
           success: true,
           users: response.users.map(u => {
@@ -706,11 +865,14 @@ function SavedQueriesPanel({
         };
       }
       
-      updateLastResult(storeId, query.id, result!);
+      updateLastResult(storeId, query.id, { ...result!, retries: retries || undefined });
     } catch (err) {
+      // A cancelled run keeps the previous result
+      if (isAbortError(err)) return;
       updateLastResult(storeId, query.id, {
         success: false,
         error: err instanceof Error ? err.message : 'Query failed',
+        retries: retries || undefined,
         timestamp: new Date().toISOString(),
       });
     } finally {
@@ -718,10 +880,87 @@ function SavedQueriesPanel({
     }
   };
 
+  // Checks go out together through batchCheck; other types still run one by one
+  const runAllChecks = async (signal: AbortSignal) => {
+    const timestamp = new Date().toISOString();
+
+    // A batch shares one consistency preference, so group checks by it
+    const groups = new Map<ConsistencyPreference | undefined, { queries: SavedQuery[]; checks: BatchCheckItem[] }>();
+    for (const query of savedQueries) {
+      let contextObj: Record<string, unknown> | undefined;
+      if (query.context?.trim()) {
+        try { contextObj = JSON.parse(query.context); } catch { /* ignore */ }
+      }
+      const group = groups.get(query.consistency) || { queries: [], checks: [] };
+      group.queries.push(query);
+      group.checks.push({
+        tuple_key: { user: query.user!, relation: query.relation!, object: query.object! },
+        context: contextObj,
+        correlation_id: `c${group.checks.length + 1}`,
+      });
+      groups.set(query.consistency, group);
+    }
+
+    await Promise.all(Array.from(groups.entries()).map(([consistency, group]) => runCheckGroup(group.queries, group.checks, consistency, timestamp, signal)));
+  };
+
+  const runCheckGroup = async (
+    runnable: SavedQuery[],
+    checks: BatchCheckItem[],
+    consistency: ConsistencyPreference | undefined,
+    timestamp: string,
+    signal: AbortSignal
+  ) => {
+    // Retries cover the whole batch, so every query in it reports the same count
+    let retries: number | undefined;
+    const retryOptions: RequestOptions = { signal, onRetry: () => { retries = (retries || 0) + 1; } };
+    try {
+      const response = await openfgaApi.batchCheck(storeId, {
+        checks,
+        authorization_model_id: modelId,
+        consistency,
+      }, retryOptions);
+      runnable.forEach((query, index) => {
+        const item = response.result[checks[index].correlation_id];
+        if (!item || item.error) {
+          updateLastResult(storeId, query.id, {
+            success: false,
+            error: item?.error?.message || 'Check failed',
+            retries,
+            timestamp,
+          });
+        } else {
+          updateLastResult(storeId, query.id, {
+            success: true,
+            allowed: !!item.allowed,
+            retries,
+            timestamp,
+          });
+        }
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      for (const query of runnable) {
+        updateLastResult(storeId, query.id, {
+          success: false,
+          error: err instanceof Error ? err.message : 'Query failed',
+          retries,
+          timestamp,
+        });
+      }
+    }
+  };
+
   const runAllQueries = async () => {
     setRunningAll(true);
-    for (const query of savedQueries) {
-      await runSingleQuery(query);
+    const signal = beginQuery();
+    if (activeQueryType === 'check') {
+      await runAllChecks(signal);
+    } else {
+      for (const query of savedQueries) {
+        if (signal.aborted) break;
+        await runSingleQuery(query, signal);
+      }
     }
     setRunningAll(false);
   };
@@ -969,6 +1208,16 @@ function SavedQueriesPanel({
             Run All {typeLabel}
           </button>
         )}
+        {runningAll && (
+          <button
+            onClick={cancelQuery}
+            className={`w-full mt-1 px-2 py-1 text-[10px] rounded flex items-center justify-center gap-1 ${
+              darkMode ? 'bg-red-900/50 text-red-300 hover:bg-red-900/70' : 'bg-red-50 text-red-600 hover:bg-red-100'
+            }`}
+          >
+            Cancel
+          </button>
+        )}
       </div>
       
       <div className="flex-1 overflow-auto p-2 space-y-1.5">
@@ -1036,6 +1285,14 @@ function SavedQueriesPanel({
                       <span className={`text-xs font-medium truncate ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>
                         {query.name}
                       </span>
+                      {query.consistency && (
+                        <span
+                          className={`flex-shrink-0 text-[9px] px-1 rounded ${darkMode ? 'bg-gray-600 text-gray-300' : 'bg-gray-100 text-gray-500'}`}
+                          title={`Consistency: ${CONSISTENCY_OPTIONS.find(o => o.value === query.consistency)?.label || query.consistency}`}
+                        >
+                          {query.consistency === 'HIGHER_CONSISTENCY' ? 'fresh' : 'fast'}
+                        </span>
+                      )}
                     </div>
                     <div className={`text-[10px] ${darkMode ? 'text-gray-500' : 'text-gray-400'} mt-0.5 truncate`}>
                       {query.type === 'check' && `${query.user} → ${query.relation} → ${query.object}`}
@@ -1063,6 +1320,14 @@ function SavedQueriesPanel({
                         {new Date(query.lastResult.timestamp).toLocaleTimeString()}
                       </span>
                     )}
+                    {query.lastResult?.retries && (
+                      <span
+                        className={`text-[9px] ${darkMode ? 'text-amber-400' : 'text-amber-600'}`}
+                        title={`Needed ${query.lastResult.retries} retries`}
+                      >
+                        ↻{query.lastResult.retries}
+                      </span>
+                    )}
                   </div>
                   <button
                     onClick={(e) => { e.stopPropagation(); runSingleQuery(query); }}
@@ -1522,6 +1787,107 @@ function ObjectInput({
   );
 }
 
+// Collects the retries the API client makes during a run so the form can show them
+function useRetryTracker() {
+  const [retries, setRetries] = useState<RetryAttempt[]>([]);
+  const retryOptions: RequestOptions = {
+    onRetry: (attempt) => setRetries(prev => [...prev, attempt]),
+  };
+  return { retries, resetRetries: () => setRetries([]), retryOptions };
+}
+
+function RetryNotice({ retries, isLoading, darkMode = false }: { retries: RetryAttempt[]; isLoading: boolean; darkMode?: boolean }) {
+  if (retries.length === 0) return null;
+  const last = retries[retries.length - 1];
+  const reasons = [...new Set(retries.map(r => r.reason))].join(', ');
+
+  return (
+    <div className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs ${darkMode ? 'bg-amber-900/30 text-amber-300' : 'bg-amber-50 text-amber-700'}`}>
+      <svg className={`w-3.5 h-3.5 flex-shrink-0 ${isLoading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+      </svg>
+      {isLoading
+        ? `Retry ${last.attempt} of ${last.maxRetries} after ${last.reason}, waiting ${(last.delayMs / 1000).toFixed(1)}s...`
+        : `${retries.length} ${retries.length === 1 ? 'retry' : 'retries'} needed (${reasons})`}
+    </div>
+  );
+}
+
+// Owns the AbortController of a form's in-flight query; aborts it on unmount
+function useCancellableQuery() {
+  const controllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  return {
+    beginQuery: (): AbortSignal => {
+      controllerRef.current?.abort();
+      controllerRef.current = new AbortController();
+      return controllerRef.current.signal;
+    },
+    cancelQuery: () => controllerRef.current?.abort(),
+  };
+}
+
+function CancelButton({ onClick, darkMode = false }: { onClick: () => void; darkMode?: boolean }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-4 py-2.5 rounded-xl flex items-center gap-2 font-medium transition-all ${
+        darkMode 
+          ? 'bg-red-900/50 text-red-300 hover:bg-red-900/70' 
+          : 'bg-red-50 text-red-600 hover:bg-red-100'
+      }`}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+      </svg>
+      Cancel
+    </button>
+  );
+}
+
+// Per-query consistency override; undefined falls back to the global default from Settings
+function ConsistencyOverride({
+  value,
+  onChange,
+  darkMode = false,
+}: {
+  value: ConsistencyPreference | undefined;
+  onChange: (value: ConsistencyPreference | undefined) => void;
+  darkMode?: boolean;
+}) {
+  const { defaultConsistency } = useAppStore();
+  const defaultLabel = CONSISTENCY_OPTIONS.find(o => o.value === defaultConsistency)?.label || 'Server default';
+  const describe = (preference: ConsistencyPreference) => {
+    const option = CONSISTENCY_OPTIONS.find(o => o.value === preference);
+    return option ? `${option.label}: ${option.description}` : preference;
+  };
+  const options: { value: ConsistencyPreference | undefined; label: string; title: string }[] = [
+    { value: undefined, label: 'Default', title: `Use the default from Settings (${defaultLabel})` },
+    { value: 'MINIMIZE_LATENCY', label: 'Fast', title: describe('MINIMIZE_LATENCY') },
+    { value: 'HIGHER_CONSISTENCY', label: 'Fresh', title: describe('HIGHER_CONSISTENCY') },
+  ];
+
+  return (
+    <div className={`flex items-center rounded-lg p-0.5 ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`} title="Consistency">
+      {options.map((option) => (
+        <button
+          key={option.label}
+          type="button"
+          onClick={() => onChange(option.value)}
+          title={option.title}
+          className={`px-2 py-1 text-[10px] font-medium rounded-md transition-all ${
+            value === option.value
+              ? darkMode ? 'bg-gray-500 text-white shadow-sm' : 'bg-white text-purple-700 shadow-sm'
+              : darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 function CheckQuery({ 
   storeId, 
   model, 
@@ -1544,9 +1910,12 @@ function CheckQuery({
   const [relation, setRelation] = useState('');
   const [object, setObject] = useState('');
   const [context, setContext] = useState('');
+  const [consistency, setConsistency] = useState<ConsistencyPreference | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<CheckResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const { retries, resetRetries, retryOptions } = useRetryTracker();
+  const { beginQuery, cancelQuery } = useCancellableQuery();
   const [showSaveOptions, setShowSaveOptions] = useState(false);
   const [expectedResult, setExpectedResult] = useState<boolean | undefined>(undefined);
 
@@ -1584,6 +1953,7 @@ function CheckQuery({
       setObject(loadedQuery.object || '');
       setContext(loadedQuery.context || '');
       setExpectedResult(loadedQuery.expectedResult as boolean | undefined);
+      setConsistency(loadedQuery.consistency);
     }
   });
 
@@ -1595,6 +1965,7 @@ function CheckQuery({
       setObject(loadedQuery.object || '');
       setContext(loadedQuery.context || '');
       setExpectedResult(loadedQuery.expectedResult as boolean | undefined);
+      setConsistency(loadedQuery.consistency);
       setResult(null);
       setError(null);
     }
@@ -1610,6 +1981,7 @@ function CheckQuery({
 
   const handleCheck = async () => {
     setIsLoading(true);
+    resetRetries();
     setError(null);
     setResult(null);
 
@@ -1626,11 +1998,14 @@ function CheckQuery({
       const response = await openfgaApi.check(storeId, {
         tuple_key: { user, relation, object },
         authorization_model_id: model?.id,
+        consistency,
         context: contextObj,
-      });
+      }, { ...retryOptions, signal: beginQuery() });
       setResult(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Check failed');
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error('Check failed'));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -1646,6 +2021,7 @@ function CheckQuery({
       relation,
       object,
       context: context || undefined,
+      consistency,
       expectedResult,
     });
     setShowSaveOptions(false);
@@ -1720,6 +2096,8 @@ function CheckQuery({
             'Run Check'
           )}
         </button>
+
+        {isLoading && <CancelButton onClick={cancelQuery} darkMode={darkMode} />}
         
         {canSave && (
           <div className="relative">
@@ -1775,13 +2153,19 @@ function CheckQuery({
             )}
           </div>
         )}
-      </div>
 
-      {error && (
-        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-          <p className="text-sm text-red-700">{error}</p>
+        <div className="ml-auto">
+          <ConsistencyOverride
+            value={consistency}
+            onChange={(value) => { setConsistency(value); clearResult(); }}
+            darkMode={darkMode}
+          />
         </div>
-      )}
+      </div>
+
+      <RetryNotice retries={retries} isLoading={isLoading} darkMode={darkMode} />
+
+      {error && <ApiErrorNotice error={error} darkMode={darkMode} />}
 
       {result && (
         <div className={`p-4 rounded-xl ${result.allowed ? 'bg-gradient-to-r from-emerald-50 to-green-50 border border-emerald-200' : 'bg-gradient-to-r from-red-50 to-rose-50 border border-red-200'}`}>
@@ -1816,6 +2200,330 @@ function CheckQuery({
   );
 }
 
+interface BatchCheckRow {
+  id: string;
+  user: string;
+  relation: string;
+  object: string;
+  expected?: boolean;
+}
+
+const BATCH_COLUMNS = ['user', 'relation', 'object'] as const;
+
+let batchRowCounter = 0;
+
+// Row IDs double as batch-check correlation IDs, so keep them short and unique
+function createBatchRow(values: Partial<Omit<BatchCheckRow, 'id'>> = {}): BatchCheckRow {
+  batchRowCounter += 1;
+  return { id: `row${batchRowCounter}`, user: '', relation: '', object: '', ...values };
+}
+
+// Split pasted text into cells: tab-separated (spreadsheets), then CSV, then whitespace
+function parsePastedRows(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      if (line.includes('\t')) return line.split('\t');
+      if (line.includes(',')) return line.split(',');
+      return line.split(/\s+/);
+    })
+    .map(cells => cells.map(cell => cell.trim()));
+}
+
+function BatchCheckQuery({
+  storeId,
+  model,
+  savedChecks,
+  unsupportedNote,
+  darkMode = false
+}: {
+  storeId: string;
+  model: AuthorizationModel | null;
+  savedChecks: SavedQuery[];
+  unsupportedNote?: string;
+  darkMode?: boolean;
+}) {
+  const { allRelations } = useModelInfo(model);
+  const [rows, setRows] = useState<BatchCheckRow[]>(() => [createBatchRow(), createBatchRow(), createBatchRow()]);
+  const [results, setResults] = useState<Record<string, BatchCheckSingleResult>>({});
+  const [consistency, setConsistency] = useState<ConsistencyPreference | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const { retries, resetRetries, retryOptions } = useRetryTracker();
+  const { beginQuery, cancelQuery } = useCancellableQuery();
+  const [duration, setDuration] = useState<number | null>(null);
+
+  const filledRows = rows.filter(r => r.user.trim() && r.relation.trim() && r.object.trim());
+
+  const clearResults = () => {
+    setResults({});
+    setError(null);
+    setDuration(null);
+  };
+
+  const updateCell = (rowId: string, column: typeof BATCH_COLUMNS[number], value: string) => {
+    setRows(prev => prev.map(r => (r.id === rowId ? { ...r, [column]: value } : r)));
+    setResults(prev => {
+      if (!prev[rowId]) return prev;
+      const next = { ...prev };
+      delete next[rowId];
+      return next;
+    });
+  };
+
+  const focusCell = (rowIndex: number, colIndex: number) => {
+    setTimeout(() => {
+      document.querySelector<HTMLInputElement>(`[data-batch-cell="${rowIndex}-${colIndex}"]`)?.focus();
+    }, 0);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
+    const parsed = parsePastedRows(e.clipboardData.getData('text'));
+    // A single value pastes normally into the focused cell
+    if (parsed.length === 0 || (parsed.length === 1 && parsed[0].length === 1)) return;
+
+    e.preventDefault();
+    setRows(prev => {
+      const next = [...prev];
+      parsed.forEach((cells, i) => {
+        const target = rowIndex + i;
+        const updated = { ...(next[target] || createBatchRow()) };
+        cells.forEach((value, j) => {
+          const column = BATCH_COLUMNS[colIndex + j];
+          if (column) updated[column] = value;
+        });
+        next[target] = updated;
+      });
+      return next;
+    });
+    clearResults();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (rowIndex === rows.length - 1) {
+      setRows(prev => [...prev, createBatchRow()]);
+    }
+    focusCell(rowIndex + 1, colIndex);
+  };
+
+  const handleRemoveRow = (rowId: string) => {
+    setRows(prev => (prev.length > 1 ? prev.filter(r => r.id !== rowId) : [createBatchRow()]));
+  };
+
+  const handleClearRows = () => {
+    setRows([createBatchRow(), createBatchRow(), createBatchRow()]);
+    clearResults();
+  };
+
+  const handleLoadSavedChecks = () => {
+    const loaded = savedChecks.map(q => createBatchRow({
+      user: q.user || '',
+      relation: q.relation || '',
+      object: q.object || '',
+      expected: typeof q.expectedResult === 'boolean' ? q.expectedResult : undefined,
+    }));
+    setRows([...rows.filter(r => r.user || r.relation || r.object), ...loaded]);
+    clearResults();
+  };
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    resetRetries();
+    clearResults();
+    const started = performance.now();
+
+    try {
+      const response = await openfgaApi.batchCheck(storeId, {
+        checks: filledRows.map(r => ({
+          tuple_key: { user: r.user.trim(), relation: r.relation.trim(), object: r.object.trim() },
+          correlation_id: r.id,
+        })),
+        authorization_model_id: model?.id,
+        consistency,
+      }, { ...retryOptions, signal: beginQuery() });
+      setResults(response.result);
+      setDuration(Math.round(performance.now() - started));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error('Batch check failed'));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resultValues = filledRows.map(r => results[r.id]).filter(Boolean);
+  const allowedCount = resultValues.filter(r => !r.error && r.allowed).length;
+  const deniedCount = resultValues.filter(r => !r.error && !r.allowed).length;
+  const errorCount = resultValues.filter(r => r.error).length;
+  const unexpectedCount = filledRows.filter(r => {
+    const result = results[r.id];
+    return result && !result.error && r.expected !== undefined && r.expected !== !!result.allowed;
+  }).length;
+
+  const cellClass = `w-full px-2 py-1.5 text-sm font-mono border-0 bg-transparent focus:ring-2 focus:ring-inset focus:ring-emerald-500 ${
+    darkMode ? 'text-gray-200 placeholder-gray-600' : 'text-gray-800 placeholder-gray-300'
+  }`;
+
+  const renderResult = (row: BatchCheckRow) => {
+    const result = results[row.id];
+    if (!result) return null;
+    if (result.error) {
+      const message = result.error.message || result.error.input_error || result.error.internal_error || 'Error';
+      return (
+        <span className="px-1.5 py-0.5 text-[10px] bg-red-100 text-red-700 rounded" title={message}>
+          Error
+        </span>
+      );
+    }
+    const matchesExpected = row.expected === undefined || row.expected === !!result.allowed;
+    return (
+      <span className={`px-1.5 py-0.5 text-[10px] font-semibold rounded ${
+        !matchesExpected
+          ? 'bg-yellow-100 text-yellow-700'
+          : result.allowed ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'
+      }`}>
+        {result.allowed ? 'ALLOWED' : 'DENIED'}
+        {!matchesExpected && ' (unexpected)'}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          Check many user / relation / object combinations at once. Paste rows from a spreadsheet or CSV into any cell.
+        </p>
+        <div className="flex items-center gap-1">
+          {savedChecks.length > 0 && (
+            <button
+              onClick={handleLoadSavedChecks}
+              className={`text-xs px-2 py-1 rounded ${darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+              title="Append all saved check queries as rows"
+            >
+              Load saved checks ({savedChecks.length})
+            </button>
+          )}
+          <button
+            onClick={handleClearRows}
+            className={`text-xs px-2 py-1 rounded ${darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <datalist id="batch-check-relations">
+        {allRelations.map(r => <option key={r} value={r} />)}
+      </datalist>
+
+      <div className={`border rounded-xl overflow-hidden ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <table className="min-w-full text-sm">
+          <thead className={darkMode ? 'bg-gray-900' : 'bg-gray-50'}>
+            <tr>
+              <th className={`w-8 px-2 py-2 text-[10px] font-medium ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>#</th>
+              <th className={`px-2 py-2 text-left text-xs font-medium uppercase ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>User</th>
+              <th className={`px-2 py-2 text-left text-xs font-medium uppercase ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Relation</th>
+              <th className={`px-2 py-2 text-left text-xs font-medium uppercase ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Object</th>
+              <th className={`w-36 px-2 py-2 text-left text-xs font-medium uppercase ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Result</th>
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-100'}`}>
+            {rows.map((row, rowIndex) => (
+              <tr key={row.id} className={darkMode ? 'hover:bg-gray-700/50' : 'hover:bg-emerald-50/40'}>
+                <td className={`px-2 text-center text-[10px] ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>{rowIndex + 1}</td>
+                {BATCH_COLUMNS.map((column, colIndex) => (
+                  <td key={column} className={`border-l ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                    <input
+                      type="text"
+                      data-batch-cell={`${rowIndex}-${colIndex}`}
+                      value={row[column]}
+                      onChange={(e) => updateCell(row.id, column, e.target.value)}
+                      onPaste={(e) => handlePaste(e, rowIndex, colIndex)}
+                      onKeyDown={(e) => handleKeyDown(e, rowIndex, colIndex)}
+                      list={column === 'relation' ? 'batch-check-relations' : undefined}
+                      placeholder={column === 'user' ? 'user:anne' : column === 'relation' ? 'viewer' : 'document:readme'}
+                      className={cellClass}
+                    />
+                  </td>
+                ))}
+                <td className={`px-2 border-l ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>{renderResult(row)}</td>
+                <td className="px-1 text-center">
+                  <button
+                    onClick={() => handleRemoveRow(row.id)}
+                    className={`p-1 rounded transition-colors ${darkMode ? 'text-gray-600 hover:text-red-400' : 'text-gray-300 hover:text-red-500'}`}
+                    title="Remove row"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() => setRows([...rows, createBatchRow()])}
+          className={`w-full py-1.5 text-xs border-t transition-colors ${darkMode ? 'border-gray-700 text-gray-500 hover:bg-gray-700' : 'border-gray-100 text-gray-400 hover:bg-gray-50'}`}
+        >
+          + Add row
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRun}
+          disabled={isLoading || filledRows.length === 0}
+          className="px-6 py-2.5 bg-gradient-to-r from-emerald-500 to-green-500 text-white rounded-xl hover:from-emerald-600 hover:to-green-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 font-medium shadow-lg shadow-green-500/25 transition-all"
+        >
+          {isLoading ? 'Checking...' : `Run ${filledRows.length} Check${filledRows.length !== 1 ? 's' : ''}`}
+        </button>
+
+        {isLoading && <CancelButton onClick={cancelQuery} darkMode={darkMode} />}
+
+        {resultValues.length > 0 && (
+          <div className="flex items-center gap-1.5 flex-wrap">
+            <span className="text-xs px-2 py-1 rounded bg-emerald-100 text-emerald-700">{allowedCount} allowed</span>
+            <span className="text-xs px-2 py-1 rounded bg-red-100 text-red-700">{deniedCount} denied</span>
+            {errorCount > 0 && (
+              <span className="text-xs px-2 py-1 rounded bg-red-200 text-red-800">{errorCount} errors</span>
+            )}
+            {unexpectedCount > 0 && (
+              <span className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-700">{unexpectedCount} unexpected</span>
+            )}
+            {duration !== null && (
+              <span className={`text-[10px] ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{duration} ms</span>
+            )}
+          </div>
+        )}
+
+        <div className="ml-auto">
+          <ConsistencyOverride
+            value={consistency}
+            onChange={(value) => { setConsistency(value); clearResults(); }}
+            darkMode={darkMode}
+          />
+        </div>
+      </div>
+
+      {unsupportedNote && (
+        <p className={`text-[10px] ${darkMode ? 'text-amber-400' : 'text-amber-600'}`}>{unsupportedNote}</p>
+      )}
+
+      <RetryNotice retries={retries} isLoading={isLoading} darkMode={darkMode} />
+
+      {error && <ApiErrorNotice error={error} darkMode={darkMode} />}
+    </div>
+  );
+}
+
 function ExpandQuery({ 
   storeId, 
   model, 
@@ -1836,9 +2544,12 @@ function ExpandQuery({
   const { addSavedQuery } = useSavedQueriesStore();
   const [relation, setRelation] = useState('');
   const [object, setObject] = useState('');
+  const [consistency, setConsistency] = useState<ConsistencyPreference | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<ExpandResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const { retries, resetRetries, retryOptions } = useRetryTracker();
+  const { beginQuery, cancelQuery } = useCancellableQuery();
 
   // Clear result when inputs change
   const clearResult = () => {
@@ -1861,6 +2572,7 @@ function ExpandQuery({
     if (loadedQuery) {
       setRelation(loadedQuery.relation || '');
       setObject(loadedQuery.object || '');
+      setConsistency(loadedQuery.consistency);
       setResult(null);
       setError(null);
     }
@@ -1875,6 +2587,7 @@ function ExpandQuery({
 
   const handleExpand = async () => {
     setIsLoading(true);
+    resetRetries();
     setError(null);
     setResult(null);
 
@@ -1882,10 +2595,13 @@ function ExpandQuery({
       const response = await openfgaApi.expand(storeId, {
         tuple_key: { relation, object },
         authorization_model_id: model?.id,
-      });
+        consistency,
+      }, { ...retryOptions, signal: beginQuery() });
       setResult(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Expand failed');
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error('Expand failed'));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -1898,6 +2614,7 @@ function ExpandQuery({
       type: 'expand',
       relation,
       object,
+      consistency,
     });
   };
 
@@ -1940,6 +2657,8 @@ function ExpandQuery({
         >
           {isLoading ? 'Expanding...' : 'Run Expand'}
         </button>
+
+        {isLoading && <CancelButton onClick={cancelQuery} darkMode={darkMode} />}
         
         {canSave && (
           <button
@@ -1956,13 +2675,19 @@ function ExpandQuery({
             Save
           </button>
         )}
-      </div>
 
-      {error && (
-        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-          <p className="text-sm text-red-700">{error}</p>
+        <div className="ml-auto">
+          <ConsistencyOverride
+            value={consistency}
+            onChange={(value) => { setConsistency(value); clearResult(); }}
+            darkMode={darkMode}
+          />
         </div>
-      )}
+      </div>
+
+      <RetryNotice retries={retries} isLoading={isLoading} darkMode={darkMode} />
+
+      {error && <ApiErrorNotice error={error} darkMode={darkMode} />}
 
       {result && (
         <div className="mt-4">
@@ -1991,6 +2716,7 @@ function ListObjectsQuery({
   tuples,
   loadedQuery,
   onClearLoaded,
+  streamUnsupportedNote,
   darkMode = false
 }: { 
   storeId: string; 
@@ -1998,6 +2724,7 @@ function ListObjectsQuery({
   tuples: Tuple[];
   loadedQuery?: SavedQuery | null;
   onClearLoaded?: () => void;
+  streamUnsupportedNote?: string;
   darkMode?: boolean;
 }) {
   const { types, relationsByType, allRelations } = useModelInfo(model);
@@ -2007,14 +2734,21 @@ function ListObjectsQuery({
   const [relation, setRelation] = useState('');
   const [type, setType] = useState('');
   const [context, setContext] = useState('');
+  const [consistency, setConsistency] = useState<ConsistencyPreference | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<ListObjectsResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const { retries, resetRetries, retryOptions } = useRetryTracker();
+  const [streamResults, setStreamResults] = useState(true);
+  const shouldStream = streamResults && !streamUnsupportedNote;
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const { beginQuery, cancelQuery } = useCancellableQuery();
 
   // Clear result when inputs change
   const clearResult = () => {
     setResult(null);
     setError(null);
+    setWasCancelled(false);
   };
 
   const handleUserChange = (value: string) => {
@@ -2044,6 +2778,7 @@ function ListObjectsQuery({
       setRelation(loadedQuery.relation || '');
       setType(loadedQuery.objectType || '');
       setContext(loadedQuery.context || '');
+      setConsistency(loadedQuery.consistency);
       setResult(null);
       setError(null);
     }
@@ -2064,6 +2799,7 @@ function ListObjectsQuery({
       relation,
       objectType: type,
       context: context || undefined,
+      consistency,
     });
   };
 
@@ -2071,8 +2807,10 @@ function ListObjectsQuery({
 
   const handleListObjects = async () => {
     setIsLoading(true);
+    resetRetries();
     setError(null);
     setResult(null);
+    setWasCancelled(false);
 
     try {
       let contextObj: Record<string, unknown> | undefined;
@@ -2084,16 +2822,34 @@ function ListObjectsQuery({
         }
       }
 
-      const response = await openfgaApi.listObjects(storeId, {
+      const request = {
         user,
         relation,
         type,
         authorization_model_id: model?.id,
+        consistency,
         context: contextObj,
-      });
-      setResult(response);
+      };
+
+      const signal = beginQuery();
+      if (shouldStream) {
+        setResult({ objects: [] });
+        await openfgaApi.streamedListObjects(
+          storeId,
+          request,
+          (objects) => setResult(prev => ({ objects: [...(prev?.objects || []), ...objects] })),
+          { ...retryOptions, signal }
+        );
+      } else {
+        const response = await openfgaApi.listObjects(storeId, request, { ...retryOptions, signal });
+        setResult(response);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'List objects failed');
+      if (isAbortError(err)) {
+        setWasCancelled(true);
+      } else {
+        setError(err instanceof Error ? err : new Error('List objects failed'));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -2160,8 +2916,10 @@ function ListObjectsQuery({
           disabled={isLoading || !user || !relation || !type}
           className="px-5 py-2.5 bg-gradient-to-r from-emerald-500 to-green-500 text-white rounded-xl hover:from-emerald-600 hover:to-green-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 font-medium shadow-lg shadow-green-500/25 transition-all"
         >
-          {isLoading ? 'Loading...' : 'List Objects'}
+          {isLoading ? (shouldStream ? 'Streaming...' : 'Loading...') : 'List Objects'}
         </button>
+
+        {isLoading && <CancelButton onClick={cancelQuery} darkMode={darkMode} />}
         
         {canSave && (
           <button
@@ -2178,21 +2936,57 @@ function ListObjectsQuery({
             Save
           </button>
         )}
-      </div>
 
-      {error && (
-        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-          <p className="text-sm text-red-700">{error}</p>
+        <label
+          className={`ml-auto flex items-center gap-1.5 text-xs ${streamUnsupportedNote ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}
+          title={streamUnsupportedNote || "Use /streamed-list-objects to show objects as they arrive, without the server's list limit"}
+        >
+          <input
+            type="checkbox"
+            checked={shouldStream}
+            onChange={(e) => setStreamResults(e.target.checked)}
+            disabled={isLoading || !!streamUnsupportedNote}
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Stream
+        </label>
+
+        <div>
+          <ConsistencyOverride
+            value={consistency}
+            onChange={(value) => { setConsistency(value); clearResult(); }}
+            darkMode={darkMode}
+          />
         </div>
-      )}
+      </div>
+
+      <RetryNotice retries={retries} isLoading={isLoading} darkMode={darkMode} />
+
+      {error && <ApiErrorNotice error={error} darkMode={darkMode} />}
 
       {result && (
         <div className="mt-4">
-          <h4 className={`text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+          <h4 className={`text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2 flex items-center gap-2`}>
             Objects ({result.objects.length})
+            {isLoading && (
+              <span className={`flex items-center gap-1 text-xs font-normal ${darkMode ? 'text-purple-400' : 'text-purple-600'}`}>
+                <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                </svg>
+                receiving...
+              </span>
+            )}
+            {wasCancelled && (
+              <span className={`text-xs font-normal ${darkMode ? 'text-amber-400' : 'text-amber-600'}`}>
+                cancelled, showing results received so far
+              </span>
+            )}
           </h4>
           {result.objects.length === 0 ? (
-            <p className={`text-sm ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>No objects found.</p>
+            <p className={`text-sm ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+              {isLoading ? 'Waiting for results...' : 'No objects found.'}
+            </p>
           ) : (
             <div className="space-y-2">
               <div className="flex flex-wrap gap-2">
@@ -2243,9 +3037,12 @@ function ListUsersQuery({
   const [relation, setRelation] = useState('');
   const [userFilterType, setUserFilterType] = useState('');
   const [context, setContext] = useState('');
+  const [consistency, setConsistency] = useState<ConsistencyPreference | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<ListUsersResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const { retries, resetRetries, retryOptions } = useRetryTracker();
+  const { beginQuery, cancelQuery } = useCancellableQuery();
   const [showObjectIdSuggestions, setShowObjectIdSuggestions] = useState(false);
 
   // Clear result when inputs change
@@ -2287,6 +3084,7 @@ function ListUsersQuery({
       setRelation(loadedQuery.relation || '');
       setUserFilterType(loadedQuery.userFilterType || '');
       setContext(loadedQuery.context || '');
+      setConsistency(loadedQuery.consistency);
       setResult(null);
       setError(null);
     }
@@ -2317,6 +3115,7 @@ function ListUsersQuery({
       relation,
       userFilterType,
       context: context || undefined,
+      consistency,
     });
   };
 
@@ -2324,6 +3123,7 @@ function ListUsersQuery({
 
   const handleListUsers = async () => {
     setIsLoading(true);
+    resetRetries();
     setError(null);
     setResult(null);
 
@@ -2342,11 +3142,14 @@ function ListUsersQuery({
         relation,
         user_filters: [{ type: userFilterType }],
         authorization_model_id: model?.id,
+        consistency,
         context: contextObj,
-      });
+      }, { ...retryOptions, signal: beginQuery() });
       setResult(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'List users failed');
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error('List users failed'));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -2479,6 +3282,8 @@ function ListUsersQuery({
         >
           {isLoading ? 'Loading...' : 'List Users'}
         </button>
+
+        {isLoading && <CancelButton onClick={cancelQuery} darkMode={darkMode} />}
         
         {canSave && (
           <button
@@ -2495,13 +3300,19 @@ function ListUsersQuery({
             Save
           </button>
         )}
-      </div>
 
-      {error && (
-        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-          <p className="text-sm text-red-700">{error}</p>
+        <div className="ml-auto">
+          <ConsistencyOverride
+            value={consistency}
+            onChange={(value) => { setConsistency(value); clearResult(); }}
+            darkMode={darkMode}
+          />
         </div>
-      )}
+      </div>
+
+      <RetryNotice retries={retries} isLoading={isLoading} darkMode={darkMode} />
+
+      {error && <ApiErrorNotice error={error} darkMode={darkMode} />}
 
       {result && (
         <div className="mt-4">
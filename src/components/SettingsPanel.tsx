@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { useAppStore } from '../store/app-store';
+import type { ConsistencyPreference, SecretStorageMode } from '../types/openfga';
+
+export const CONSISTENCY_OPTIONS: { value: ConsistencyPreference; label: string; description: string }[] = [
+  { value: 'UNSPECIFIED', label: 'Server default', description: 'Let the server decide (same as minimize latency)' },
+  { value: 'MINIMIZE_LATENCY', label: 'Minimize latency', description: 'Serve from cache when possible; results may briefly lag recent writes' },
+  { value: 'HIGHER_CONSISTENCY', label: 'Higher consistency', description: 'Skip the cache and read the latest tuples; slower' },
+];
+
+const RETRY_OPTIONS = [0, 1, 3, 5];
+
+const SECRET_STORAGE_OPTIONS: { value: SecretStorageMode; label: string; description: string }[] = [
+  { value: 'plaintext', label: 'Save in browser', description: 'Tokens and secrets are kept unencrypted in localStorage' },
+  { value: 'vault', label: 'Encrypt with passphrase', description: 'PBKDF2 + AES-GCM; enter the passphrase once per session' },
+  { value: 'memory', label: 'Do not save', description: 'Kept in memory only; re-enter credentials after a reload' },
+];
+
+// Shortest passphrase accepted for the vault
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface SettingsPanelProps {
+  darkMode?: boolean;
+}
+
+export function SettingsPanel({ darkMode = false }: SettingsPanelProps) {
+  const {
+    defaultConsistency,
+    setDefaultConsistency,
+    maxRetries,
+    setMaxRetries,
+    bypassCache,
+    setBypassCache,
+    secretStorage,
+    setSecretStorage,
+    vaultKey,
+    encryptedSecrets,
+  } = useAppStore();
+  const [showPassphraseForm, setShowPassphraseForm] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [isEncrypting, setIsEncrypting] = useState(false);
+
+  const vaultLocked = secretStorage === 'vault' && !vaultKey && !!encryptedSecrets;
+
+  const handleStorageChange = (mode: SecretStorageMode) => {
+    setVaultError(null);
+    if (vaultLocked && !window.confirm('The vault is locked. Changing the storage discards the encrypted credentials. Continue?')) {
+      return;
+    }
+    if (mode === 'vault') {
+      setShowPassphraseForm(true);
+      return;
+    }
+    setShowPassphraseForm(false);
+    setSecretStorage(mode);
+  };
+
+  const handleEnableVault = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setVaultError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setVaultError('The passphrases do not match');
+      return;
+    }
+    setIsEncrypting(true);
+    try {
+      await setSecretStorage('vault', passphrase);
+      setShowPassphraseForm(false);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Failed to set up encryption');
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  return (
+    <div className="pt-2 space-y-3">
+      {/* Default Consistency */}
+      <div>
+        <label className={`block text-xs font-medium ${darkMode ? 'text-gray-400' : 'text-gray-600'} mb-1`}>
+          Default Query Consistency
+        </label>
+        <div className="space-y-1">
+          {CONSISTENCY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setDefaultConsistency(option.value)}
+              className={`w-full px-2.5 py-1.5 text-left rounded-lg transition-all ${
+                defaultConsistency === option.value
+                  ? darkMode
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-purple-100 text-purple-700 border-purple-300 border'
+                  : darkMode
+                    ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              <div className="text-xs font-medium">{option.label}</div>
+              <div className={`text-[10px] ${defaultConsistency === option.value && darkMode ? 'text-purple-200' : 'text-gray-400'}`}>
+                {option.description}
+              </div>
+            </button>
+          ))}
+        </div>
+        <p className={`text-[10px] mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+          Applies to Check, Expand, List Objects and List Users unless a query overrides it
+        </p>
+      </div>
+
+      {/* Retries */}
+      <div>
+        <label className={`block text-xs font-medium ${darkMode ? 'text-gray-400' : 'text-gray-600'} mb-1`}>
+          Retries on Rate Limit / Server Error
+        </label>
+        <div className="flex gap-1">
+          {RETRY_OPTIONS.map((count) => (
+            <button
+              key={count}
+              onClick={() => setMaxRetries(count)}
+              className={`flex-1 px-2 py-1 text-xs font-medium rounded-lg transition-all ${
+                maxRetries === count
+                  ? darkMode
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-purple-100 text-purple-700 border-purple-300 border'
+                  : darkMode
+                    ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {count === 0 ? 'Off' : count}
+            </button>
+          ))}
+        </div>
+        <p className={`text-[10px] mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+          Reads and queries are retried with exponential backoff on 429 and 5xx responses; writes never are
+        </p>
+      </div>
+
+      {/* Response cache */}
+      <div>
+        <label className={`flex items-center gap-2 text-xs font-medium cursor-pointer ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => setBypassCache(e.target.checked)}
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Bypass Response Cache
+        </label>
+        <p className={`text-[10px] mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+          Model lists and tuple pages are cached for a minute and models by ID until you reconnect; writes from this tab clear them. Turn on to always hit the server while debugging
+        </p>
+      </div>
+
+      {/* Credential Storage */}
+      <div>
+        <label className={`block text-xs font-medium ${darkMode ? 'text-gray-400' : 'text-gray-600'} mb-1`}>
+          Credential Storage
+        </label>
+        <div className="space-y-1">
+          {SECRET_STORAGE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => handleStorageChange(option.value)}
+              className={`w-full px-2.5 py-1.5 text-left rounded-lg transition-all ${
+                secretStorage === option.value
+                  ? darkMode
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-purple-100 text-purple-700 border-purple-300 border'
+                  : darkMode
+                    ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              <div className="text-xs font-medium">
+                {option.label}
+                {option.value === 'vault' && secretStorage === 'vault' && (
+                  <span className="ml-1 font-normal">{vaultLocked ? '· locked' : '· unlocked'}</span>
+                )}
+              </div>
+              <div className={`text-[10px] ${secretStorage === option.value && darkMode ? 'text-purple-200' : 'text-gray-400'}`}>
+                {option.description}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {showPassphraseForm && (
+          <div className={`mt-1.5 p-2 rounded-lg space-y-1.5 border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={secretStorage === 'vault' ? 'New passphrase' : 'Passphrase'}
+              autoComplete="new-password"
+              className={`w-full px-2 py-1.5 text-xs border rounded focus:ring-2 focus:ring-purple-500 focus:border-purple-500 ${
+                darkMode ? 'bg-gray-600 border-gray-500 text-white placeholder-gray-400' : 'border-gray-200 bg-white'
+              }`}
+            />
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleEnableVault()}
+              placeholder="Confirm passphrase"
+              autoComplete="new-password"
+              className={`w-full px-2 py-1.5 text-xs border rounded focus:ring-2 focus:ring-purple-500 focus:border-purple-500 ${
+                darkMode ? 'bg-gray-600 border-gray-500 text-white placeholder-gray-400' : 'border-gray-200 bg-white'
+              }`}
+            />
+            {vaultError && (
+              <p className={`text-[10px] ${darkMode ? 'text-red-400' : 'text-red-600'}`}>{vaultError}</p>
+            )}
+            <p className={`text-[10px] ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              The passphrase cannot be recovered. If you forget it, the saved credentials are lost.
+            </p>
+            <div className="flex justify-end gap-1.5">
+              <button
+                onClick={() => { setShowPassphraseForm(false); setVaultError(null); }}
+                className={`px-2 py-1 text-xs rounded transition-colors ${darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-600 hover:bg-gray-200'}`}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleEnableVault}
+                disabled={isEncrypting || !passphrase}
+                className="px-2 py-1 text-xs font-medium rounded bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 transition-colors"
+              >
+                {isEncrypting ? 'Encrypting...' : 'Encrypt'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import openfgaApi, { isAbortError } from '../services/openfga-api';
+import { useAppStore } from '../store/app-store';
+import { useSavedQueriesStore } from '../store/saved-queries-store';
+import type { AuthorizationModel, Store } from '../types/openfga';
+import { extractTimestampFromULID, formatDateTime, formatRelativeTime } from '../utils/ulid';
+
+interface StoreOverviewProps {
+  darkMode?: boolean;
+}
+
+// Tuple count per object type, then per relation
+type TupleCounts = Record<string, Record<string, number>>;
+
+function countTuplesByTypeAndRelation(counts: TupleCounts, tuples: { key: { object: string; relation: string } }[]) {
+  for (const { key } of tuples) {
+    const type = key.object.split(':')[0];
+    const byRelation = counts[type] || (counts[type] = {});
+    byRelation[key.relation] = (byRelation[key.relation] || 0) + 1;
+  }
+}
+
+function StatCard({ label, value, detail, title, darkMode = false }: {
+  label: string;
+  value: React.ReactNode;
+  detail?: string;
+  title?: string;
+  darkMode?: boolean;
+}) {
+  return (
+    <div className={`p-3 rounded-xl border ${darkMode ? 'bg-gray-700/50 border-gray-700' : 'bg-white border-gray-100'}`} title={title}>
+      <div className={`text-[10px] font-medium uppercase tracking-wide ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{label}</div>
+      <div className={`mt-1 text-lg font-semibold ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>{value}</div>
+      {detail && <div className={`text-[10px] ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{detail}</div>}
+    </div>
+  );
+}
+
+export function StoreOverview({ darkMode = false }: StoreOverviewProps) {
+  const { selectedStore } = useAppStore();
+  const { getSavedQueries } = useSavedQueriesStore();
+
+  const [store, setStore] = useState<Store | null>(null);
+  const [models, setModels] = useState<AuthorizationModel[]>([]);
+  const [modelsLoading, setModelsLoading] = useState(false);
+  const [tupleCounts, setTupleCounts] = useState<TupleCounts>({});
+  const [tuplesScanned, setTuplesScanned] = useState(0);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanComplete, setScanComplete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stops a running scan when the store changes or the page closes
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // fresh skips the API's response cache, for the Refresh button
+  const loadOverview = useCallback(async (fresh = false) => {
+    if (!selectedStore) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
+    setError(null);
+    setModelsLoading(true);
+    setIsScanning(true);
+    setScanComplete(false);
+    setTupleCounts({});
+    setTuplesScanned(0);
+
+    try {
+      const [storeDetails, allModels] = await Promise.all([
+        openfgaApi.getStore(selectedStore.id, { signal }),
+        (async () => {
+          const result: AuthorizationModel[] = [];
+          for await (const page of openfgaApi.iterateModels(selectedStore.id, { signal, noCache: fresh })) {
+            result.push(...page.items);
+          }
+          return result;
+        })(),
+      ]);
+      setStore(storeDetails);
+      setModels(allModels);
+      setModelsLoading(false);
+
+      // Full tuple scan, publishing counts after every page
+      const counts: TupleCounts = {};
+      let scanned = 0;
+      for await (const page of openfgaApi.iterateTuples(selectedStore.id, undefined, { signal, noCache: fresh })) {
+        countTuplesByTypeAndRelation(counts, page.items);
+        scanned += page.items.length;
+        setTupleCounts({ ...counts });
+        setTuplesScanned(scanned);
+      }
+      setScanComplete(true);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to load store overview');
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setModelsLoading(false);
+        setIsScanning(false);
+      }
+    }
+  }, [selectedStore]);
+
+  useEffect(() => {
+    loadOverview();
+    return () => controllerRef.current?.abort();
+  }, [loadOverview]);
+
+  const stopScan = () => {
+    controllerRef.current?.abort();
+  };
+
+  const typeRows = useMemo(() => Object.entries(tupleCounts)
+    .map(([type, byRelation]) => ({
+      type,
+      total: Object.values(byRelation).reduce((sum, n) => sum + n, 0),
+      relations: Object.entries(byRelation).sort((a, b) => b[1] - a[1]),
+    }))
+    .sort((a, b) => b.total - a.total), [tupleCounts]);
+
+  if (!selectedStore) {
+    return null;
+  }
+
+  const details = store?.id === selectedStore.id ? store : selectedStore;
+  // Models are listed newest first
+  const latestModel = models[0];
+  const latestModelTime = latestModel ? extractTimestampFromULID(latestModel.id) : null;
+  const savedQueryCount = getSavedQueries(selectedStore.id).length;
+  const maxTypeTotal = typeRows[0]?.total || 1;
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white/95 border-white/20'} backdrop-blur-sm rounded-2xl shadow-xl border overflow-hidden flex flex-col h-full`}>
+      {/* Header */}
+      <div className={`p-3 border-b ${darkMode ? 'border-gray-700 bg-gradient-to-r from-gray-800 to-gray-700' : 'border-gray-100 bg-gradient-to-r from-amber-50 to-orange-50'}`}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <div className="p-1.5 bg-gradient-to-br from-amber-500 to-orange-500 rounded-lg">
+              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+            </div>
+            <span className={`text-sm font-medium truncate ${darkMode ? 'text-gray-200' : 'text-gray-700'}`}>{details.name}</span>
+            <code className={`text-[10px] font-mono truncate ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{details.id}</code>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {isScanning && !modelsLoading && (
+              <button
+                onClick={stopScan}
+                className={`px-2 py-1 text-xs rounded-lg transition-colors ${darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+              >
+                Stop scan
+              </button>
+            )}
+            <button
+              onClick={() => loadOverview(true)}
+              disabled={isScanning}
+              className={`p-1.5 rounded-lg disabled:opacity-50 transition-colors ${darkMode ? 'text-gray-400 hover:text-orange-400 hover:bg-gray-700' : 'text-gray-500 hover:text-orange-600 hover:bg-orange-50'}`}
+              title="Refresh"
+            >
+              <svg className={`w-4 h-4 ${isScanning ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-xs text-red-700">{error}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto p-3 space-y-4">
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-3 gap-2">
+          <StatCard
+            label="Created"
+            value={formatRelativeTime(details.created_at)}
+            detail={formatDateTime(details.created_at)}
+            darkMode={darkMode}
+          />
+          <StatCard
+            label="Updated"
+            value={formatRelativeTime(details.updated_at)}
+            detail={formatDateTime(details.updated_at)}
+            darkMode={darkMode}
+          />
+          <StatCard
+            label="Model versions"
+            value={modelsLoading ? '…' : models.length}
+            darkMode={darkMode}
+          />
+          <StatCard
+            label="Latest model written"
+            value={modelsLoading ? '…' : latestModelTime ? formatRelativeTime(latestModelTime) : 'None'}
+            detail={latestModelTime ? formatDateTime(latestModelTime) : undefined}
+            title={latestModel ? `Model ${latestModel.id}; time read from its ULID` : undefined}
+            darkMode={darkMode}
+          />
+          <StatCard
+            label="Tuples"
+            value={scanComplete ? tuplesScanned.toLocaleString() : `${tuplesScanned.toLocaleString()}${isScanning ? '…' : '+'}`}
+            detail={scanComplete ? undefined : isScanning ? 'Counting...' : 'Scan stopped; count is partial'}
+            darkMode={darkMode}
+          />
+          <StatCard
+            label="Saved queries"
+            value={savedQueryCount}
+            darkMode={darkMode}
+          />
+        </div>
+
+        {/* Tuples per type and relation */}
+        <div>
+          <h3 className={`text-xs font-semibold uppercase tracking-wide mb-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Tuples by type and relation
+          </h3>
+          {typeRows.length === 0 ? (
+            <p className={`text-sm py-6 text-center ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+              {isScanning ? 'Scanning tuples...' : 'No tuples in this store.'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {typeRows.map((row) => (
+                <div key={row.type} className={`p-2.5 rounded-xl border ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                  <div className="flex items-center gap-2">
+                    <code className={`text-xs font-semibold ${darkMode ? 'text-purple-300' : 'text-purple-700'}`}>{row.type}</code>
+                    <div className={`flex-1 h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                      <div className="h-full bg-gradient-to-r from-amber-500 to-orange-500" style={{ width: `${(row.total / maxTypeTotal) * 100}%` }} />
+                    </div>
+                    <span className={`text-xs font-medium tabular-nums ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{row.total.toLocaleString()}</span>
+                  </div>
+                  <div className="mt-1.5 flex flex-wrap gap-1">
+                    {row.relations.map(([relation, count]) => (
+                      <span
+                        key={relation}
+                        className={`text-[10px] px-1.5 py-0.5 rounded ${darkMode ? 'bg-green-900/40 text-green-400' : 'bg-green-50 text-green-700'}`}
+                      >
+                        {relation} <span className="font-semibold tabular-nums">{count.toLocaleString()}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
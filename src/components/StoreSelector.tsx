@@ -1,7 +1,10 @@
 import { useCallback, useEffect, useState } from 'react';
-import openfgaApi from '../services/openfga-api';
+import openfgaApi, { isAbortError } from '../services/openfga-api';
 import { useAppStore } from '../store/app-store';
+import { useSavedQueriesStore } from '../store/saved-queries-store';
+import type { AuthorizationModel, Store, Tuple } from '../types/openfga';
 import { formatDateTime, formatRelativeTime } from '../utils/ulid';
+import { ConfirmDialog } from './ConfirmDialog';
 import { CopyButton } from './CopyButton';
 import { CustomSelect } from './CustomSelect';
 
@@ -10,6 +13,38 @@ interface StoreSelectorProps {
   darkMode?: boolean;
 }
 
+// Download every model and tuple of a store as one JSON file
+// Read straight from the server: a backup taken before deleting the store must
+// include writes the response cache has not seen yet
+async function exportStoreSnapshot(store: Store) {
+  const authorizationModels: AuthorizationModel[] = [];
+  for await (const page of openfgaApi.iterateModels(store.id, { noCache: true })) {
+    authorizationModels.push(...page.items);
+  }
+
+  const tuples: Tuple[] = [];
+  for await (const page of openfgaApi.iterateTuples(store.id, undefined, { noCache: true })) {
+    tuples.push(...page.items);
+  }
+
+  const exportData = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    store,
+    authorization_models: authorizationModels,
+    tuples,
+  };
+  const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `openfga-store-${store.id.slice(0, 8)}-${new Date().toISOString().split('T')[0]}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export function StoreSelector({ compact = false, darkMode = false }: StoreSelectorProps) {
   const {
     isConnected,
@@ -27,13 +62,19 @@ export function StoreSelector({ compact = false, darkMode = false }: StoreSelect
     selectedModel,
     setSelectedModel,
     setModelsLoading,
+    setModelsContinuationToken,
+    preferredModelId,
   } = useAppStore();
+  const { removeStoreQueries } = useSavedQueriesStore();
 
   const [isCreating, setIsCreating] = useState(false);
   const [newStoreName, setNewStoreName] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [storeToDelete, setStoreToDelete] = useState<Store | null>(null);
+  const [exportBeforeDelete, setExportBeforeDelete] = useState(true);
+  const [isDeleting, setIsDeleting] = useState(false);
 
   // Load authorization models when store is selected
   useEffect(() => {
@@ -47,12 +88,18 @@ export function StoreSelector({ compact = false, darkMode = false }: StoreSelect
     try {
       const response = await openfgaApi.listAuthorizationModels(storeId);
       setAuthorizationModels(response.authorization_models);
+      setModelsContinuationToken(response.continuation_token || null);
       
       if (response.authorization_models.length > 0) {
-        setSelectedModel(response.authorization_models[0]);
+        const preferredId = preferredModelId(storeId);
+        setSelectedModel(
+          response.authorization_models.find((m) => m.id === preferredId) || response.authorization_models[0]
+        );
       }
     } catch (err) {
-      console.error('Failed to load authorization models:', err);
+      if (!isAbortError(err)) {
+        console.error('Failed to load authorization models:', err);
+      }
     } finally {
       setModelsLoading(false);
     }
@@ -91,6 +138,56 @@ export function StoreSelector({ compact = false, darkMode = false }: StoreSelect
     }
   };
 
+  const handleDeleteStore = async (store: Store) => {
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      if (exportBeforeDelete) {
+        try {
+          await exportStoreSnapshot(store);
+        } catch (err) {
+          // Keep the store when its backup could not be taken
+          throw new Error(`Export failed, store not deleted: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+      await openfgaApi.deleteStore(store.id);
+      const remaining = stores.filter((s) => s.id !== store.id);
+      setStores(remaining);
+      removeStoreQueries(store.id);
+      if (selectedStore?.id === store.id) {
+        setSelectedStore(remaining[0] || null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete store');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const deleteDialog = (
+    <ConfirmDialog
+      isOpen={storeToDelete !== null}
+      onClose={() => setStoreToDelete(null)}
+      onConfirm={() => storeToDelete && handleDeleteStore(storeToDelete)}
+      title="Delete Store"
+      message={`This permanently deletes "${storeToDelete?.name}" with all of its models and tuples. Saved queries for this store are removed too.`}
+      confirmText="Delete Store"
+      variant="danger"
+      confirmationText={storeToDelete?.name}
+    >
+      <label className="mt-3 flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={exportBeforeDelete}
+          onChange={(e) => setExportBeforeDelete(e.target.checked)}
+          className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+        />
+        Download models and tuples as JSON first
+      </label>
+    </ConfirmDialog>
+  );
+
   const handleRefreshStores = async () => {
     setStoresLoading(true);
     try {
@@ -149,6 +246,16 @@ export function StoreSelector({ compact = false, darkMode = false }: StoreSelect
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                 </svg>
               </button>
+              <button
+                onClick={() => selectedStore && setStoreToDelete(selectedStore)}
+                disabled={!selectedStore || isDeleting}
+                className="p-1 text-gray-400 hover:text-red-600 rounded disabled:opacity-50 transition-colors"
+                title="Delete selected store"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
             </div>
           </div>
           
@@ -229,6 +336,8 @@ export function StoreSelector({ compact = false, darkMode = false }: StoreSelect
             <p className="text-xs text-red-600">{error}</p>
           </div>
         )}
+
+        {deleteDialog}
       </div>
     );
   }
@@ -282,6 +391,16 @@ export function StoreSelector({ compact = false, darkMode = false }: StoreSelect
             </svg>
             New
           </button>
+          <button
+            onClick={() => selectedStore && setStoreToDelete(selectedStore)}
+            disabled={!selectedStore || isDeleting}
+            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors"
+            title="Delete selected store"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
         </div>
       </div>
 
@@ -318,6 +437,8 @@ export function StoreSelector({ compact = false, darkMode = false }: StoreSelect
           <p className="text-xs text-red-700">{error}</p>
         </div>
       )}
+
+      {deleteDialog}
     </div>
   );
 }
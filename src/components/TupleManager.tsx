@@ -1,12 +1,16 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import openfgaApi from '../services/openfga-api';
+import openfgaApi, { isAbortError } from '../services/openfga-api';
 import { useAppStore } from '../store/app-store';
 import type { Tuple, TupleKey } from '../types/openfga';
+import { ApiErrorNotice } from './ApiErrorNotice';
 import { ConfirmDialog } from './ConfirmDialog';
 import { CopyButton } from './CopyButton';
 
+// Upper bound for "Load all" so a huge store cannot exhaust the browser's memory
+const LOAD_ALL_MAX_TUPLES = 10000;
+
 interface TupleManagerProps {
   darkMode?: boolean;
 }
@@ -27,7 +31,7 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
   const [showAddForm, setShowAddForm] = useState(false);
   const [newTuple, setNewTuple] = useState<TupleKey>({ user: '', relation: '', object: '' });
   const [isAdding, setIsAdding] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [filterUser, setFilterUser] = useState('');
   const [filterRelation, setFilterRelation] = useState('');
   const [filterObject, setFilterObject] = useState('');
@@ -38,11 +42,15 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
     tuple: null,
   });
   const [loadingMore, setLoadingMore] = useState(false);
+  const [loadAllCount, setLoadAllCount] = useState<number | null>(null);
+  const loadAllControllerRef = useRef<AbortController | null>(null);
   const tableScrollRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => () => loadAllControllerRef.current?.abort(), []);
+
   const handleTableScroll = useCallback(() => {
     const el = tableScrollRef.current;
-    if (!el || !tuplesContinuationToken || loadingMore || tuplesLoading) return;
+    if (!el || !tuplesContinuationToken || loadingMore || tuplesLoading || loadAllCount !== null) return;
     const { scrollTop, scrollHeight, clientHeight } = el;
     if (scrollHeight - scrollTop - clientHeight < 60) {
       setLoadingMore(true);
@@ -59,7 +67,35 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
         setLoadingMore(false);
       });
     }
-  }, [tuplesContinuationToken, loadingMore, tuplesLoading, selectedStore, appendTuples, setTuplesContinuationToken]);
+  }, [tuplesContinuationToken, loadingMore, tuplesLoading, loadAllCount, selectedStore, appendTuples, setTuplesContinuationToken]);
+
+  // Keep following continuation tokens until every tuple is loaded
+  const handleLoadAllTuples = async () => {
+    if (!selectedStore || !tuplesContinuationToken) return;
+    const controller = new AbortController();
+    loadAllControllerRef.current = controller;
+    let loaded = tuples.length;
+    setLoadAllCount(loaded);
+    try {
+      for await (const page of openfgaApi.iterateTuples(selectedStore.id, undefined, {
+        continuationToken: tuplesContinuationToken,
+        maxItems: LOAD_ALL_MAX_TUPLES - loaded,
+        signal: controller.signal,
+      })) {
+        appendTuples(page.items);
+        setTuplesContinuationToken(page.continuationToken);
+        loaded += page.items.length;
+        setLoadAllCount(loaded);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error('Failed to load tuples'));
+      }
+    } finally {
+      loadAllControllerRef.current = null;
+      setLoadAllCount(null);
+    }
+  };
 
   // Client-side filtered tuples
   const filteredTuples = useMemo(() => {
@@ -83,9 +119,15 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
   // Get selected tuple from filtered list
   const selectedTuple = selectedTupleIndex !== null ? filteredTuples[selectedTupleIndex] : null;
 
-  const loadTuples = useCallback(async (reset = true) => {
+  // Only the latest load may touch state; an older one can still be settling
+  // after a store switch aborted it
+  const loadSeqRef = useRef(0);
+
+  // fresh skips the API's response cache, for the Refresh button
+  const loadTuples = useCallback(async (reset = true, fresh = false) => {
     if (!selectedStore) return;
 
+    const seq = ++loadSeqRef.current;
     setTuplesLoading(true);
     setError(null);
 
@@ -93,8 +135,11 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
       const response = await openfgaApi.readTuples(
         selectedStore.id,
         100,
-        reset ? undefined : tuplesContinuationToken || undefined
+        reset ? undefined : tuplesContinuationToken || undefined,
+        undefined,
+        { noCache: fresh }
       );
+      if (seq !== loadSeqRef.current) return;
 
       if (reset) {
         setTuples(response.tuples);
@@ -104,9 +149,13 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
       }
       setTuplesContinuationToken(response.continuation_token || null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load tuples');
+      if (!isAbortError(err) && seq === loadSeqRef.current) {
+        setError(err instanceof Error ? err : new Error('Failed to load tuples'));
+      }
     } finally {
-      setTuplesLoading(false);
+      if (seq === loadSeqRef.current) {
+        setTuplesLoading(false);
+      }
     }
   }, [selectedStore, tuplesContinuationToken, setTuples, appendTuples, setTuplesLoading, setTuplesContinuationToken]);
 
@@ -128,7 +177,7 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
       setShowAddForm(false);
       loadTuples(true);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add tuple');
+      setError(err instanceof Error ? err : new Error('Failed to add tuple'));
     } finally {
       setIsAdding(false);
     }
@@ -143,7 +192,7 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
       await openfgaApi.deleteTuples(selectedStore.id, [tuple], selectedModel?.id);
       loadTuples(true);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete tuple');
+      setError(err instanceof Error ? err : new Error('Failed to delete tuple'));
     }
   };
 
@@ -180,6 +229,24 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
               </svg>
             </div>
             <span className="text-sm font-medium text-gray-700">{tuples.length} tuples</span>
+            {loadAllCount !== null ? (
+              <button
+                onClick={() => loadAllControllerRef.current?.abort()}
+                className="px-2 py-0.5 text-[10px] text-gray-600 bg-white/80 border border-gray-200 rounded hover:bg-gray-100 transition-colors"
+                title="Stop loading"
+              >
+                Loading {loadAllCount.toLocaleString()}… Stop
+              </button>
+            ) : tuplesContinuationToken && tuples.length < LOAD_ALL_MAX_TUPLES && (
+              <button
+                onClick={handleLoadAllTuples}
+                disabled={tuplesLoading || loadingMore}
+                className="px-2 py-0.5 text-[10px] text-cyan-700 bg-white/80 border border-cyan-200 rounded hover:bg-cyan-50 disabled:opacity-50 transition-colors"
+                title={`Load the remaining pages (up to ${LOAD_ALL_MAX_TUPLES.toLocaleString()} tuples)`}
+              >
+                Load all
+              </button>
+            )}
           </div>
           
           <div className="flex items-center gap-1">
@@ -194,7 +261,7 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
             </button>
             <CopyButton text={tuplesToJson()} />
             <button
-              onClick={() => loadTuples(true)}
+              onClick={() => loadTuples(true, true)}
               disabled={tuplesLoading}
               className="p-1.5 text-gray-500 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg disabled:opacity-50 transition-colors"
               title="Refresh"
@@ -353,8 +420,8 @@ export function TupleManager({ darkMode = false }: TupleManagerProps) {
         )}
 
         {error && (
-          <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
-            <p className="text-xs text-red-700">{error}</p>
+          <div className="mt-2">
+            <ApiErrorNotice error={error} compact />
           </div>
         )}
       </div>
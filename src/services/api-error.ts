@@ -0,0 +1,35 @@
+import type { OpenFGAError } from '../types/openfga';
+
+// A non-OK response from the OpenFGA HTTP API, keeping everything the server
+// told us so the UI can explain the failure
+export class OpenFGAApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly body: string;
+  readonly requestId?: string;
+
+  constructor(status: number, code: string, message: string, body: string, requestId?: string) {
+    super(message);
+    this.name = 'OpenFGAApiError';
+    this.status = status;
+    this.code = code;
+    this.body = body;
+    this.requestId = requestId;
+  }
+
+  static fromResponse(response: Response, body: string): OpenFGAApiError {
+    let data: Partial<OpenFGAError> = {};
+    try {
+      data = JSON.parse(body);
+    } catch {
+      // Not JSON, e.g. an error page from a proxy in front of the server
+    }
+    return new OpenFGAApiError(
+      response.status,
+      data.code ? String(data.code) : 'UNKNOWN_ERROR',
+      data.message || `HTTP ${response.status}: ${response.statusText}`,
+      body,
+      response.headers.get('X-Request-Id') || undefined
+    );
+  }
+}
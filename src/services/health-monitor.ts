@@ -0,0 +1,126 @@
+import { openfgaApi } from './openfga-api';
+
+// Poll interval while the server answers
+const HEALTHY_INTERVAL_MS = 15000;
+// Backoff while it does not: 2s, 4s, 8s ... capped
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+// A check slower than this, or a single failed one, counts as degraded
+const DEGRADED_LATENCY_MS = 1000;
+const FAILURES_BEFORE_OFFLINE = 3;
+const CHECK_TIMEOUT_MS = 5000;
+
+export type HealthStatus = 'unknown' | 'healthy' | 'degraded' | 'offline';
+
+export interface HealthState {
+  status: HealthStatus;
+  latencyMs?: number;
+  lastCheckedAt?: number;
+  consecutiveFailures: number;
+  nextCheckAt?: number;
+}
+
+type Listener = (state: HealthState) => void;
+
+const INITIAL_STATE: HealthState = { status: 'unknown', consecutiveFailures: 0 };
+
+// Polls /healthz while connected and reports status and latency. Calls the
+// recovery callback when the server answers again after failing.
+class HealthMonitor {
+  private state: HealthState = INITIAL_STATE;
+  private listeners = new Set<Listener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private controller: AbortController | null = null;
+  private onRecover: (() => void) | null = null;
+
+  start(onRecover: () => void) {
+    this.stop();
+    this.onRecover = onRecover;
+    this.check();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    this.onRecover = null;
+    this.setState(INITIAL_STATE);
+  }
+
+  // Check now instead of waiting for the next poll
+  checkNow() {
+    if (this.onRecover) {
+      this.check();
+    }
+  }
+
+  getState(): HealthState {
+    return this.state;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async check() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+    const timeout = setTimeout(() => controller.abort(), CHECK_TIMEOUT_MS);
+
+    const startTime = performance.now();
+    const ok = await openfgaApi.healthCheck({ signal: controller.signal });
+    const latencyMs = Math.round(performance.now() - startTime);
+    clearTimeout(timeout);
+
+    // Stopped or superseded by a newer check meanwhile
+    if (this.controller !== controller) return;
+    this.controller = null;
+
+    const wasFailing = this.state.consecutiveFailures > 0;
+    const consecutiveFailures = ok ? 0 : this.state.consecutiveFailures + 1;
+    const delay = ok
+      ? HEALTHY_INTERVAL_MS
+      : Math.min(RETRY_BASE_DELAY_MS * 2 ** (consecutiveFailures - 1), RETRY_MAX_DELAY_MS);
+
+    let status: HealthStatus;
+    if (ok) {
+      status = latencyMs > DEGRADED_LATENCY_MS ? 'degraded' : 'healthy';
+    } else {
+      status = consecutiveFailures >= FAILURES_BEFORE_OFFLINE ? 'offline' : 'degraded';
+    }
+
+    this.setState({
+      status,
+      latencyMs: ok ? latencyMs : undefined,
+      lastCheckedAt: Date.now(),
+      consecutiveFailures,
+      nextCheckAt: Date.now() + delay,
+    });
+    this.timer = setTimeout(() => this.check(), delay);
+
+    if (ok && wasFailing) {
+      this.onRecover?.();
+    }
+  }
+
+  private setState(state: HealthState) {
+    this.state = state;
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+}
+
+export const healthMonitor = new HealthMonitor();
+export default healthMonitor;
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getDemoBackend } from './memory-backend';
+import { openfgaApi } from './openfga-api';
+import { MEMORY_SERVER_URL } from './transport';
+
+async function demoStoreId(): Promise<string> {
+  const { stores } = await openfgaApi.listStores();
+  return stores[0].id;
+}
+
+describe('API service against memory://demo', () => {
+  beforeEach(() => {
+    openfgaApi.setConfig({ serverUrl: MEMORY_SERVER_URL, authMethod: 'none' });
+  });
+
+  it('lists the seeded demo store with its model and tuples', async () => {
+    const { stores } = await openfgaApi.listStores();
+    expect(stores.map((s) => s.name)).toEqual(['Demo: document sharing']);
+
+    const { authorization_models } = await openfgaApi.listAuthorizationModels(stores[0].id);
+    expect(authorization_models).toHaveLength(1);
+
+    const { tuples } = await openfgaApi.readTuples(stores[0].id, 100, undefined, { object: 'group:engineering' });
+    expect(tuples.map((t) => t.key.user).sort()).toEqual(['user:anne', 'user:beth']);
+  });
+
+  it('resolves checks through usersets, tuple-to-userset and exclusion', async () => {
+    const storeId = await demoStoreId();
+    const check = async (user: string, relation: string, object: string) =>
+      (await openfgaApi.check(storeId, { tuple_key: { user, relation, object } })).allowed;
+
+    expect(await check('user:anne', 'can_view', 'document:design-doc')).toBe(true);
+    expect(await check('user:carl', 'viewer', 'document:roadmap-2025')).toBe(true);
+    expect(await check('user:carl', 'can_view', 'document:design-doc')).toBe(false);
+    expect(await check('user:zoe', 'viewer', 'document:readme')).toBe(true);
+  });
+
+  it('writes tuples, bumps updated_at and reports the change', async () => {
+    const storeId = await demoStoreId();
+    const before = await openfgaApi.getStore(storeId);
+    const tuple = { user: 'user:zoe', relation: 'owner', object: 'document:plan' };
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await openfgaApi.writeTuples(storeId, { writes: { tuple_keys: [tuple] } });
+
+    const after = await openfgaApi.getStore(storeId);
+    expect(after.updated_at > before.updated_at).toBe(true);
+
+    const { tuples } = await openfgaApi.readTuples(storeId, 100, undefined, { object: 'document:plan' });
+    expect(tuples.map((t) => t.key)).toEqual([tuple]);
+
+    const { changes } = await openfgaApi.readChanges(storeId, 100, undefined, 'document');
+    expect(changes[changes.length - 1]).toMatchObject({ tuple_key: tuple, operation: 'TUPLE_OPERATION_WRITE' });
+  });
+
+  it('hands back a resumable token at the end of the change feed', async () => {
+    const storeId = await demoStoreId();
+    const first = await openfgaApi.readChanges(storeId, 100, undefined, 'folder');
+    expect(first.changes.length).toBeGreaterThan(0);
+    expect(first.continuation_token).not.toBe('');
+
+    const caughtUp = await openfgaApi.readChanges(storeId, 100, first.continuation_token, 'folder');
+    expect(caughtUp.changes).toEqual([]);
+
+    const tuple = { user: 'user:zoe', relation: 'owner', object: 'folder:archive' };
+    await openfgaApi.writeTuples(storeId, { writes: { tuple_keys: [tuple] } });
+    const resumed = await openfgaApi.readChanges(storeId, 100, caughtUp.continuation_token, 'folder');
+    expect(resumed.changes.map((c) => c.tuple_key)).toEqual([tuple]);
+  });
+
+  it('rejects a malformed model instead of storing it', async () => {
+    const storeId = await demoStoreId();
+    // Sent as raw JSON: the service's own types would not let this body through
+    const response = await getDemoBackend().fetch(`${MEMORY_SERVER_URL}/stores/${storeId}/authorization-models`, {
+      method: 'POST',
+      body: JSON.stringify({ schema_version: '1.1', type_definitions: [{ relations: {} }] }),
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'validation_error' });
+
+    const { authorization_models } = await openfgaApi.listAuthorizationModels(storeId);
+    expect(authorization_models).toHaveLength(1);
+  });
+
+  it('reports every optional endpoint as supported', async () => {
+    expect(await openfgaApi.probeCapabilities()).toEqual({
+      listUsers: true,
+      batchCheck: true,
+      streamedListObjects: true,
+    });
+  });
+});
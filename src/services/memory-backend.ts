@@ -0,0 +1,735 @@
+import type {
+    Assertion,
+    AuthorizationModel,
+    BatchCheckItem,
+    BatchCheckSingleResult,
+    Store,
+    Tuple,
+    TupleChange,
+    TupleKey,
+    TypeDefinition,
+    User,
+    UserTypeFilter,
+    Userset,
+    UsersetTreeNode,
+} from '../types/openfga';
+import { generateULID } from '../utils/ulid';
+import type { Transport } from './transport';
+
+const DEFAULT_PAGE_SIZE = 50;
+// Same limits as the server's defaults
+const MAX_RESOLUTION_DEPTH = 25;
+const MAX_TUPLES_PER_WRITE = 100;
+
+interface StoreData {
+  store: Store;
+  models: AuthorizationModel[]; // Newest first, like the API lists them
+  tuples: Tuple[];
+  changes: TupleChange[];
+  assertions: Record<string, Assertion[]>; // By model id
+}
+
+// Turned into an OpenFGA-style error response by the request handler
+class BackendError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+const notFound = (message = 'Not Found') => new BackendError(404, 'undefined_endpoint', message);
+const validationError = (message: string) => new BackendError(400, 'validation_error', message);
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function tupleKeyString(key: TupleKey): string {
+  return `${key.object}#${key.relation}@${key.user}`;
+}
+
+function typeOf(objectOrUser: string): string {
+  return objectOrUser.split(':')[0];
+}
+
+// Page through items with the offset as the continuation token
+function paginate<T>(items: T[], pageSize: unknown, token: unknown): { page: T[]; continuation_token: string } {
+  const size = Number(pageSize) || DEFAULT_PAGE_SIZE;
+  if (token && !/^\d+$/.test(String(token))) {
+    throw new BackendError(400, 'invalid_continuation_token', 'Invalid continuation token');
+  }
+  const offset = token ? Number(token) : 0;
+  const end = offset + size;
+  return {
+    page: items.slice(offset, end),
+    continuation_token: end < items.length ? String(end) : '',
+  };
+}
+
+function validateTupleFormat(key: Partial<TupleKey> | undefined): TupleKey {
+  if (!key?.user || !key.relation || !key.object) {
+    throw validationError('Invalid tuple: user, relation and object are required');
+  }
+  if (!/^[^:#\s]+:[^#:\s]+$/.test(key.object)) {
+    throw validationError(`Invalid tuple '${tupleKeyString(key as TupleKey)}'. Reason: invalid 'object' field format`);
+  }
+  if (!/^[^:#\s]+:[^#:\s]+(#[^#:\s]+)?$/.test(key.user)) {
+    throw validationError(`Invalid tuple '${tupleKeyString(key as TupleKey)}'. Reason: invalid 'user' field format`);
+  }
+  return key as TupleKey;
+}
+
+// Resolves queries against one model and a set of tuples. Conditions are not
+// evaluated: a conditional tuple always applies.
+class ModelEvaluator {
+  private types = new Map<string, TypeDefinition>();
+  private tuplesByObjectRelation = new Map<string, TupleKey[]>();
+  // Every object id seen per type, in tuple objects or users
+  private idsByType = new Map<string, Set<string>>();
+  private wildcardTypes = new Set<string>();
+  private inProgress = new Set<string>();
+
+  constructor(model: AuthorizationModel, tuples: TupleKey[]) {
+    for (const typeDef of model.type_definitions) {
+      this.types.set(typeDef.type, typeDef);
+    }
+    for (const key of tuples) {
+      const groupKey = `${key.object}#${key.relation}`;
+      const group = this.tuplesByObjectRelation.get(groupKey) || [];
+      group.push(key);
+      this.tuplesByObjectRelation.set(groupKey, group);
+      this.addId(key.object);
+      const userObject = key.user.split('#')[0];
+      if (userObject.endsWith(':*')) {
+        this.wildcardTypes.add(typeOf(userObject));
+      } else {
+        this.addId(userObject);
+      }
+    }
+  }
+
+  private addId(object: string) {
+    const [type, id] = object.split(':');
+    const ids = this.idsByType.get(type) || new Set<string>();
+    ids.add(id);
+    this.idsByType.set(type, ids);
+  }
+
+  private tuplesFor(object: string, relation: string): TupleKey[] {
+    return this.tuplesByObjectRelation.get(`${object}#${relation}`) || [];
+  }
+
+  hasRelation(type: string, relation: string): boolean {
+    return !!this.types.get(type)?.relations?.[relation];
+  }
+
+  rewriteFor(type: string, relation: string): Userset {
+    const typeDef = this.types.get(type);
+    if (!typeDef) {
+      throw validationError(`type '${type}' not found`);
+    }
+    const rewrite = typeDef.relations?.[relation];
+    if (!rewrite) {
+      throw validationError(`relation '${type}#${relation}' not found`);
+    }
+    return rewrite;
+  }
+
+  validateTuple(key: TupleKey, model: AuthorizationModel) {
+    const fail = (reason: string) => validationError(`Invalid tuple '${tupleKeyString(key)}'. Reason: ${reason}`);
+    const objectType = typeOf(key.object);
+    if (!this.types.has(objectType)) throw fail(`type '${objectType}' not found`);
+    if (!this.hasRelation(objectType, key.relation)) throw fail(`relation '${objectType}#${key.relation}' not found`);
+
+    const allowed = this.types.get(objectType)?.metadata?.relations?.[key.relation]?.directly_related_user_types || [];
+    if (allowed.length === 0) {
+      throw fail(`relation '${objectType}#${key.relation}' cannot have tuples written to it directly`);
+    }
+    const [userObject, userRelation] = key.user.split('#');
+    const userType = typeOf(userObject);
+    const isWildcard = userObject.endsWith(':*');
+    const reference = allowed.find((ref) => ref.type === userType
+      && (isWildcard ? !!ref.wildcard : !ref.wildcard)
+      && (ref.relation || undefined) === userRelation
+      && (!key.condition || ref.condition === key.condition.name));
+    if (!reference) {
+      const userLabel = isWildcard ? `${userType}:*` : userRelation ? `${userType}#${userRelation}` : userType;
+      throw fail(`type '${userLabel}' is not an allowed type restriction for '${objectType}#${key.relation}'`
+        + (key.condition ? ` with condition '${key.condition.name}'` : ''));
+    }
+    if (key.condition && !model.conditions?.[key.condition.name]) {
+      throw fail(`condition '${key.condition.name}' is undefined`);
+    }
+  }
+
+  // Whether `user` has `relation` on `object`. With matchWildcard off, a
+  // `type:*` tuple does not grant access to individual users of that type.
+  check(object: string, relation: string, user: string, matchWildcard = true, depth = 0): boolean {
+    if (depth > MAX_RESOLUTION_DEPTH) {
+      throw new BackendError(400, 'authorization_model_resolution_too_complex', 'Authorization Model resolution required too many rewrite rules to be resolved. Check your authorization model for infinite recursion or too much nesting');
+    }
+    // A userset always includes itself
+    if (user === `${object}#${relation}`) return true;
+
+    const visitKey = `${object}#${relation}@${user}#${matchWildcard}`;
+    if (this.inProgress.has(visitKey)) return false;
+    this.inProgress.add(visitKey);
+    try {
+      return this.checkRewrite(object, relation, this.rewriteFor(typeOf(object), relation), user, matchWildcard, depth);
+    } finally {
+      this.inProgress.delete(visitKey);
+    }
+  }
+
+  private checkRewrite(object: string, relation: string, rewrite: Userset, user: string, matchWildcard: boolean, depth: number): boolean {
+    if (rewrite.this) {
+      const isUserObject = !user.includes('#');
+      for (const key of this.tuplesFor(object, relation)) {
+        if (key.user === user) return true;
+        const [userObject, userRelation] = key.user.split('#');
+        if (userRelation) {
+          if (this.check(userObject, userRelation, user, matchWildcard, depth + 1)) return true;
+        } else if (matchWildcard && isUserObject && userObject === `${typeOf(user)}:*`) {
+          return true;
+        }
+      }
+      return false;
+    }
+    if (rewrite.computedUserset?.relation) {
+      return this.check(object, rewrite.computedUserset.relation, user, matchWildcard, depth + 1);
+    }
+    if (rewrite.tupleToUserset) {
+      const tupleset = rewrite.tupleToUserset.tupleset?.relation || '';
+      const computed = rewrite.tupleToUserset.computedUserset?.relation || '';
+      return this.tuplesFor(object, tupleset).some((key) =>
+        !key.user.includes('#')
+        && !key.user.endsWith(':*')
+        && this.hasRelation(typeOf(key.user), computed)
+        && this.check(key.user, computed, user, matchWildcard, depth + 1)
+      );
+    }
+    if (rewrite.union) {
+      return (rewrite.union.child || []).some((child) => this.checkRewrite(object, relation, child, user, matchWildcard, depth));
+    }
+    if (rewrite.intersection) {
+      const children = rewrite.intersection.child || [];
+      return children.length > 0 && children.every((child) => this.checkRewrite(object, relation, child, user, matchWildcard, depth));
+    }
+    if (rewrite.difference?.base && rewrite.difference.subtract) {
+      return this.checkRewrite(object, relation, rewrite.difference.base, user, matchWildcard, depth)
+        && !this.checkRewrite(object, relation, rewrite.difference.subtract, user, matchWildcard, depth);
+    }
+    return false;
+  }
+
+  listObjects(type: string, relation: string, user: string): string[] {
+    this.rewriteFor(type, relation);
+    return Array.from(this.idsByType.get(type) || [])
+      .map((id) => `${type}:${id}`)
+      .filter((object) => this.check(object, relation, user));
+  }
+
+  listUsers(object: string, relation: string, filters: UserTypeFilter[]): User[] {
+    this.rewriteFor(typeOf(object), relation);
+    const users: User[] = [];
+    for (const filter of filters) {
+      if (filter.relation) {
+        for (const id of this.idsByType.get(filter.type) || []) {
+          if (this.check(object, relation, `${filter.type}:${id}#${filter.relation}`, false)) {
+            users.push({ userset: { type: filter.type, id, relation: filter.relation } });
+          }
+        }
+        continue;
+      }
+      if (this.wildcardTypes.has(filter.type) && this.check(object, relation, `${filter.type}:*`, false)) {
+        users.push({ wildcard: { type: filter.type } });
+      }
+      for (const id of this.idsByType.get(filter.type) || []) {
+        if (this.check(object, relation, `${filter.type}:${id}`, false)) {
+          users.push({ object: { type: filter.type, id } });
+        }
+      }
+    }
+    return users;
+  }
+
+  // One level of the userset tree, in the shape /expand returns
+  expand(object: string, relation: string): UsersetTreeNode {
+    return this.expandRewrite(object, relation, this.rewriteFor(typeOf(object), relation));
+  }
+
+  private expandRewrite(object: string, relation: string, rewrite: Userset): UsersetTreeNode {
+    const name = `${object}#${relation}`;
+    if (rewrite.computedUserset?.relation) {
+      return { name, leaf: { computed: { userset: `${object}#${rewrite.computedUserset.relation}` } } };
+    }
+    if (rewrite.tupleToUserset) {
+      const tupleset = rewrite.tupleToUserset.tupleset?.relation || '';
+      const computed = rewrite.tupleToUserset.computedUserset?.relation || '';
+      return {
+        name,
+        leaf: {
+          tupleToUserset: {
+            tupleset: `${object}#${tupleset}`,
+            computed: this.tuplesFor(object, tupleset)
+              .filter((key) => !key.user.includes('#') && this.hasRelation(typeOf(key.user), computed))
+              .map((key) => ({ userset: `${key.user}#${computed}` })),
+          },
+        },
+      };
+    }
+    if (rewrite.union) {
+      return { name, union: { nodes: (rewrite.union.child || []).map((child) => this.expandRewrite(object, relation, child)) } };
+    }
+    if (rewrite.intersection) {
+      return { name, intersection: { nodes: (rewrite.intersection.child || []).map((child) => this.expandRewrite(object, relation, child)) } };
+    }
+    if (rewrite.difference?.base && rewrite.difference.subtract) {
+      return {
+        name,
+        difference: {
+          base: this.expandRewrite(object, relation, rewrite.difference.base),
+          subtract: this.expandRewrite(object, relation, rewrite.difference.subtract),
+        },
+      };
+    }
+    return { name, leaf: { users: { users: this.tuplesFor(object, relation).map((key) => key.user) } } };
+  }
+}
+
+// Pull the model out of a WriteAuthorizationModel request body
+function parseModelRequest(body: Record<string, unknown>): Omit<AuthorizationModel, 'id'> {
+  const { schema_version, type_definitions, conditions } = body;
+  if (schema_version !== undefined && typeof schema_version !== 'string') {
+    throw validationError('invalid WriteAuthorizationModelRequest.SchemaVersion: value must be a string');
+  }
+  if (!Array.isArray(type_definitions)) {
+    throw validationError('invalid WriteAuthorizationModelRequest.TypeDefinitions: value must contain at least 1 item(s)');
+  }
+  for (const typeDef of type_definitions as unknown[]) {
+    const { type, relations } = (typeDef || {}) as Record<string, unknown>;
+    if (typeof type !== 'string' || !type) {
+      throw validationError('invalid WriteAuthorizationModelRequest.TypeDefinitions: every type definition needs a type');
+    }
+    if (relations !== undefined && (typeof relations !== 'object' || relations === null || Array.isArray(relations))) {
+      throw validationError(`invalid WriteAuthorizationModelRequest.TypeDefinitions: relations of type '${type}' must be an object`);
+    }
+  }
+  if (conditions !== undefined && (typeof conditions !== 'object' || conditions === null || Array.isArray(conditions))) {
+    throw validationError('invalid WriteAuthorizationModelRequest.Conditions: value must be an object');
+  }
+  return {
+    schema_version: (schema_version as string | undefined) || '1.1',
+    type_definitions: type_definitions as TypeDefinition[],
+    conditions: conditions as AuthorizationModel['conditions'],
+  };
+}
+
+// Check that every relation a model references exists
+function validateModel(model: Omit<AuthorizationModel, 'id'>) {
+  if (!Array.isArray(model.type_definitions) || model.type_definitions.length === 0) {
+    throw new BackendError(400, 'invalid_authorization_model', 'the model must have at least one type definition');
+  }
+  const relationsByType = new Map(model.type_definitions.map((td) => [td.type, td.relations || {}]));
+  const fail = (message: string) => new BackendError(400, 'invalid_authorization_model', message);
+
+  const walk = (type: string, relation: string, rewrite: Userset) => {
+    const own = relationsByType.get(type) || {};
+    if (rewrite.computedUserset?.relation && !own[rewrite.computedUserset.relation]) {
+      throw fail(`the relation '${rewrite.computedUserset.relation}' does not exist on type '${type}' (used in '${type}#${relation}')`);
+    }
+    if (rewrite.tupleToUserset) {
+      const tupleset = rewrite.tupleToUserset.tupleset?.relation || '';
+      if (!own[tupleset]) {
+        throw fail(`the tupleset relation '${tupleset}' does not exist on type '${type}' (used in '${type}#${relation}')`);
+      }
+    }
+    for (const child of [...(rewrite.union?.child || []), ...(rewrite.intersection?.child || [])]) {
+      walk(type, relation, child);
+    }
+    if (rewrite.difference?.base) walk(type, relation, rewrite.difference.base);
+    if (rewrite.difference?.subtract) walk(type, relation, rewrite.difference.subtract);
+  };
+
+  for (const typeDef of model.type_definitions) {
+    for (const [relation, rewrite] of Object.entries(typeDef.relations || {})) {
+      walk(typeDef.type, relation, rewrite);
+      for (const ref of typeDef.metadata?.relations?.[relation]?.directly_related_user_types || []) {
+        if (!relationsByType.has(ref.type)) {
+          throw fail(`type '${ref.type}' used in '${typeDef.type}#${relation}' is not defined`);
+        }
+        if (ref.relation && !relationsByType.get(ref.type)?.[ref.relation]) {
+          throw fail(`relation '${ref.type}#${ref.relation}' used in '${typeDef.type}#${relation}' is not defined`);
+        }
+      }
+    }
+  }
+}
+
+// An OpenFGA server that keeps everything in memory. It answers the same
+// HTTP API as a real server, so it plugs in as a Transport for the offline
+// demo and for tests. Data is lost on reload.
+export class InMemoryBackend implements Transport {
+  private stores = new Map<string, StoreData>();
+
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    if (init.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+    const { pathname, searchParams } = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    try {
+      let body: Record<string, unknown> = {};
+      if (typeof init.body === 'string' && init.body) {
+        try {
+          body = JSON.parse(init.body);
+        } catch {
+          throw validationError('The request body is not valid JSON');
+        }
+      }
+      return this.route(method, pathname.split('/').filter(Boolean), searchParams, body);
+    } catch (error) {
+      if (error instanceof BackendError) {
+        return jsonResponse(error.status, { code: error.code, message: error.message });
+      }
+      throw error;
+    }
+  }
+
+  // Add a store directly, optionally with a model and tuples
+  addStore(name: string, model?: Omit<AuthorizationModel, 'id'>, tuples: TupleKey[] = []): Store {
+    const store = this.createStore(name);
+    if (model) {
+      this.writeModel(store.id, model);
+      for (let i = 0; i < tuples.length; i += MAX_TUPLES_PER_WRITE) {
+        this.write(store.id, { writes: { tuple_keys: tuples.slice(i, i + MAX_TUPLES_PER_WRITE) } });
+      }
+    }
+    return store;
+  }
+
+  private route(method: string, segments: string[], params: URLSearchParams, body: Record<string, unknown>): Response {
+    const [root, storeId, resource, resourceId] = segments;
+    if (root === 'healthz' && method === 'GET') {
+      return jsonResponse(200, { status: 'SERVING' });
+    }
+    if (root !== 'stores') throw notFound();
+
+    if (!storeId) {
+      if (method === 'GET') {
+        const { page, continuation_token } = paginate(Array.from(this.stores.values()).map((d) => d.store), params.get('page_size'), params.get('continuation_token'));
+        return jsonResponse(200, { stores: page, continuation_token });
+      }
+      if (method === 'POST') {
+        if (typeof body.name !== 'string' || !body.name.trim()) {
+          throw validationError('invalid CreateStoreRequest.Name: value length must be between 3 and 64 runes, inclusive');
+        }
+        return jsonResponse(201, this.createStore(body.name));
+      }
+      throw notFound();
+    }
+
+    const data = this.stores.get(storeId);
+    if (!data) {
+      throw new BackendError(404, 'store_id_not_found', `store '${storeId}' not found`);
+    }
+
+    switch (`${method} ${resource || ''}`) {
+      case 'GET ':
+        return jsonResponse(200, data.store);
+      case 'DELETE ':
+        this.stores.delete(storeId);
+        return new Response(null, { status: 204 });
+      case 'GET authorization-models': {
+        if (resourceId) {
+          return jsonResponse(200, { authorization_model: this.findModel(data, resourceId) });
+        }
+        const { page, continuation_token } = paginate(data.models, params.get('page_size'), params.get('continuation_token'));
+        return jsonResponse(200, { authorization_models: page, continuation_token });
+      }
+      case 'POST authorization-models':
+        return jsonResponse(201, { authorization_model_id: this.writeModel(storeId, parseModelRequest(body)).id });
+      case 'GET assertions':
+        this.findModel(data, resourceId);
+        return jsonResponse(200, { authorization_model_id: resourceId, assertions: data.assertions[resourceId] || [] });
+      case 'PUT assertions':
+        this.findModel(data, resourceId);
+        data.assertions[resourceId] = (body.assertions as Assertion[]) || [];
+        return new Response(null, { status: 204 });
+      case 'POST read':
+        return jsonResponse(200, this.read(data, body));
+      case 'POST write':
+        this.write(storeId, body);
+        return jsonResponse(200, {});
+      case 'GET changes':
+        return jsonResponse(200, this.readChanges(data, params));
+      case 'POST check': {
+        const { evaluator, key } = this.prepareCheck(data, body);
+        return jsonResponse(200, { allowed: evaluator.check(key.object, key.relation, key.user), resolution: '' });
+      }
+      case 'POST batch-check':
+        return jsonResponse(200, { result: this.batchCheck(data, body) });
+      case 'POST expand': {
+        const tupleKey = (body.tuple_key || {}) as { relation?: string; object?: string };
+        if (!tupleKey.relation || !tupleKey.object) {
+          throw validationError('invalid ExpandRequest.TupleKey: relation and object are required');
+        }
+        const evaluator = this.evaluatorFor(data, body);
+        return jsonResponse(200, { tree: { root: evaluator.expand(tupleKey.object, tupleKey.relation) } });
+      }
+      case 'POST list-objects':
+        return jsonResponse(200, { objects: this.listObjects(data, body) });
+      case 'POST streamed-list-objects': {
+        const lines = this.listObjects(data, body).map((object) => JSON.stringify({ result: { object } }) + '\n');
+        return new Response(lines.join(''), { status: 200, headers: { 'Content-Type': 'application/x-ndjson' } });
+      }
+      case 'POST list-users': {
+        const object = body.object as { type?: string; id?: string } | undefined;
+        const filters = (body.user_filters || []) as UserTypeFilter[];
+        if (!object?.type || !object.id || typeof body.relation !== 'string' || filters.length !== 1) {
+          throw validationError('invalid ListUsersRequest: object, relation and exactly one user filter are required');
+        }
+        const evaluator = this.evaluatorFor(data, body);
+        return jsonResponse(200, { users: evaluator.listUsers(`${object.type}:${object.id}`, body.relation, filters) });
+      }
+    }
+    throw notFound();
+  }
+
+  private createStore(name: string): Store {
+    const now = new Date().toISOString();
+    const store: Store = { id: generateULID(), name, created_at: now, updated_at: now };
+    this.stores.set(store.id, { store, models: [], tuples: [], changes: [], assertions: {} });
+    return store;
+  }
+
+  private writeModel(storeId: string, model: Omit<AuthorizationModel, 'id'>): AuthorizationModel {
+    validateModel(model);
+    const data = this.stores.get(storeId)!;
+    const written: AuthorizationModel = {
+      id: generateULID(),
+      schema_version: model.schema_version || '1.1',
+      type_definitions: model.type_definitions,
+      conditions: model.conditions,
+    };
+    data.models.unshift(written);
+    return written;
+  }
+
+  private findModel(data: StoreData, modelId?: string): AuthorizationModel {
+    if (modelId) {
+      const model = data.models.find((m) => m.id === modelId);
+      if (!model) {
+        throw new BackendError(404, 'authorization_model_not_found', `Authorization Model '${modelId}' not found`);
+      }
+      return model;
+    }
+    if (data.models.length === 0) {
+      throw new BackendError(400, 'latest_authorization_model_not_found', `No authorization models found for store '${data.store.id}'`);
+    }
+    return data.models[0];
+  }
+
+  // Evaluator over the store's tuples plus the request's contextual tuples
+  private evaluatorFor(data: StoreData, body: Record<string, unknown>): ModelEvaluator {
+    const model = this.findModel(data, body.authorization_model_id as string | undefined);
+    const contextual = ((body.contextual_tuples as { tuple_keys?: TupleKey[] } | undefined)?.tuple_keys || []).map(validateTupleFormat);
+    const evaluator = new ModelEvaluator(model, [...data.tuples.map((t) => t.key), ...contextual]);
+    contextual.forEach((key) => evaluator.validateTuple(key, model));
+    return evaluator;
+  }
+
+  private prepareCheck(data: StoreData, body: Record<string, unknown>) {
+    const key = body.tuple_key as Partial<TupleKey> | undefined;
+    if (!key?.user || !key.relation || !key.object) {
+      throw validationError('invalid CheckRequestTupleKey: user, relation and object are required');
+    }
+    return { evaluator: this.evaluatorFor(data, body), key: key as TupleKey };
+  }
+
+  private batchCheck(data: StoreData, body: Record<string, unknown>): Record<string, BatchCheckSingleResult> {
+    const result: Record<string, BatchCheckSingleResult> = {};
+    for (const item of (body.checks || []) as BatchCheckItem[]) {
+      try {
+        const { evaluator, key } = this.prepareCheck(data, { ...item, authorization_model_id: body.authorization_model_id });
+        result[item.correlation_id] = { allowed: evaluator.check(key.object, key.relation, key.user) };
+      } catch (error) {
+        if (!(error instanceof BackendError)) throw error;
+        result[item.correlation_id] = { error: { input_error: error.code, message: error.message } };
+      }
+    }
+    return result;
+  }
+
+  private listObjects(data: StoreData, body: Record<string, unknown>): string[] {
+    if (typeof body.type !== 'string' || typeof body.relation !== 'string' || typeof body.user !== 'string') {
+      throw validationError('invalid ListObjectsRequest: type, relation and user are required');
+    }
+    return this.evaluatorFor(data, body).listObjects(body.type, body.relation, body.user);
+  }
+
+  private read(data: StoreData, body: Record<string, unknown>) {
+    const filter = (body.tuple_key || {}) as Partial<TupleKey>;
+    const matches = data.tuples.filter(({ key }) =>
+      (!filter.user || key.user === filter.user)
+      && (!filter.relation || key.relation === filter.relation)
+      && (!filter.object || (filter.object.endsWith(':') ? key.object.startsWith(filter.object) : key.object === filter.object))
+    );
+    const { page, continuation_token } = paginate(matches, body.page_size, body.continuation_token);
+    return { tuples: page, continuation_token };
+  }
+
+  // All-or-nothing, like the server: nothing is applied if any key is invalid
+  private write(storeId: string, body: Record<string, unknown>) {
+    const data = this.stores.get(storeId)!;
+    const writes = body.writes as { tuple_keys?: TupleKey[]; on_duplicate?: string } | undefined;
+    const deletes = body.deletes as { tuple_keys?: TupleKey[]; on_missing?: string } | undefined;
+    const writeKeys = (writes?.tuple_keys || []).map(validateTupleFormat);
+    const deleteKeys = (deletes?.tuple_keys || []).map(validateTupleFormat);
+
+    if (writeKeys.length + deleteKeys.length > MAX_TUPLES_PER_WRITE) {
+      throw new BackendError(400, 'exceeded_entity_limit', `The number of write operations exceeds the allowed limit of ${MAX_TUPLES_PER_WRITE}`);
+    }
+    if (writeKeys.length > 0) {
+      const model = this.findModel(data, body.authorization_model_id as string | undefined);
+      const evaluator = new ModelEvaluator(model, []);
+      writeKeys.forEach((key) => evaluator.validateTuple(key, model));
+    }
+
+    const identity = (key: TupleKey) => `${key.object}#${key.relation}@${key.user}`;
+    const existing = new Map(data.tuples.map((t) => [identity(t.key), t]));
+    const describe = (key: TupleKey) => `user: '${key.user}', relation: '${key.relation}', object: '${key.object}'`;
+
+    const toWrite = writeKeys.filter((key) => {
+      if (!existing.has(identity(key))) return true;
+      if (writes?.on_duplicate === 'ignore') return false;
+      throw new BackendError(400, 'write_failed_due_to_invalid_input', `cannot write a tuple which already exists: ${describe(key)}: tuple to be written already existed or the tuple to be deleted did not exist`);
+    });
+    const toDelete = deleteKeys.filter((key) => {
+      if (existing.has(identity(key))) return true;
+      if (deletes?.on_missing === 'ignore') return false;
+      throw new BackendError(400, 'write_failed_due_to_invalid_input', `cannot delete a tuple which does not exist: ${describe(key)}: tuple to be written already existed or the tuple to be deleted did not exist`);
+    });
+
+    const timestamp = new Date().toISOString();
+    const deleted = new Set(toDelete.map(identity));
+    data.tuples = data.tuples.filter((t) => !deleted.has(identity(t.key)));
+    for (const key of toDelete) {
+      data.changes.push({ tuple_key: key, operation: 'TUPLE_OPERATION_DELETE', timestamp });
+    }
+    for (const key of toWrite) {
+      data.tuples.push({ key, timestamp });
+      data.changes.push({ tuple_key: key, operation: 'TUPLE_OPERATION_WRITE', timestamp });
+    }
+    data.store = { ...data.store, updated_at: timestamp };
+  }
+
+  private readChanges(data: StoreData, params: URLSearchParams) {
+    const type = params.get('type');
+    const startTime = params.get('start_time');
+    const changes = data.changes.filter((change) =>
+      (!type || typeOf(change.tuple_key.object) === type)
+      && (!startTime || change.timestamp >= new Date(startTime).toISOString())
+    );
+    const { page, continuation_token } = paginate(changes, params.get('page_size'), params.get('continuation_token'));
+    // The feed only grows, so past the last change the token points at where
+    // new ones will appear instead of being empty, as a real server's does
+    const offset = Number(params.get('continuation_token')) || 0;
+    return { changes: page, continuation_token: continuation_token || String(Math.max(offset, changes.length)) };
+  }
+}
+
+const DEMO_MODEL: Omit<AuthorizationModel, 'id'> = {
+  schema_version: '1.1',
+  type_definitions: [
+    { type: 'user' },
+    {
+      type: 'group',
+      relations: { member: { this: {} } },
+      metadata: { relations: { member: { directly_related_user_types: [{ type: 'user' }, { type: 'group', relation: 'member' }] } } },
+    },
+    {
+      type: 'folder',
+      relations: {
+        owner: { this: {} },
+        parent: { this: {} },
+        viewer: {
+          union: {
+            child: [
+              { this: {} },
+              { computedUserset: { relation: 'owner' } },
+              { tupleToUserset: { tupleset: { relation: 'parent' }, computedUserset: { relation: 'viewer' } } },
+            ],
+          },
+        },
+      },
+      metadata: {
+        relations: {
+          owner: { directly_related_user_types: [{ type: 'user' }] },
+          parent: { directly_related_user_types: [{ type: 'folder' }] },
+          viewer: { directly_related_user_types: [{ type: 'user' }, { type: 'group', relation: 'member' }] },
+        },
+      },
+    },
+    {
+      type: 'document',
+      relations: {
+        parent: { this: {} },
+        owner: { this: {} },
+        editor: { union: { child: [{ this: {} }, { computedUserset: { relation: 'owner' } }] } },
+        viewer: {
+          union: {
+            child: [
+              { this: {} },
+              { computedUserset: { relation: 'editor' } },
+              { tupleToUserset: { tupleset: { relation: 'parent' }, computedUserset: { relation: 'viewer' } } },
+            ],
+          },
+        },
+        blocked: { this: {} },
+        can_view: {
+          difference: {
+            base: { computedUserset: { relation: 'viewer' } },
+            subtract: { computedUserset: { relation: 'blocked' } },
+          },
+        },
+      },
+      metadata: {
+        relations: {
+          parent: { directly_related_user_types: [{ type: 'folder' }] },
+          owner: { directly_related_user_types: [{ type: 'user' }] },
+          editor: { directly_related_user_types: [{ type: 'user' }, { type: 'group', relation: 'member' }] },
+          viewer: { directly_related_user_types: [{ type: 'user' }, { type: 'user', wildcard: {} }, { type: 'group', relation: 'member' }] },
+          blocked: { directly_related_user_types: [{ type: 'user' }] },
+        },
+      },
+    },
+  ],
+};
+
+const DEMO_TUPLES: TupleKey[] = [
+  { user: 'user:anne', relation: 'member', object: 'group:engineering' },
+  { user: 'user:beth', relation: 'member', object: 'group:engineering' },
+  { user: 'group:engineering#member', relation: 'member', object: 'group:everyone' },
+  { user: 'user:carl', relation: 'member', object: 'group:everyone' },
+  { user: 'user:anne', relation: 'owner', object: 'folder:projects' },
+  { user: 'group:everyone#member', relation: 'viewer', object: 'folder:projects' },
+  { user: 'folder:projects', relation: 'parent', object: 'folder:roadmaps' },
+  { user: 'folder:roadmaps', relation: 'parent', object: 'document:roadmap-2025' },
+  { user: 'user:beth', relation: 'owner', object: 'document:roadmap-2025' },
+  { user: 'group:engineering#member', relation: 'editor', object: 'document:design-doc' },
+  { user: 'folder:projects', relation: 'parent', object: 'document:design-doc' },
+  { user: 'user:carl', relation: 'blocked', object: 'document:design-doc' },
+  { user: 'user:*', relation: 'viewer', object: 'document:readme' },
+];
+
+let demoBackend: InMemoryBackend | null = null;
+
+// Shared backend behind MEMORY_SERVER_URL, seeded with a small document
+// sharing example on first use
+export function getDemoBackend(): InMemoryBackend {
+  if (!demoBackend) {
+    demoBackend = new InMemoryBackend();
+    demoBackend.addStore('Demo: document sharing', DEMO_MODEL, DEMO_TUPLES);
+  }
+  return demoBackend;
+}
@@ -0,0 +1,42 @@
+import type { NetworkLogEntry } from '../types/openfga';
+
+// Oldest entries are dropped once the log is full
+const MAX_ENTRIES = 200;
+
+type Listener = (entries: NetworkLogEntry[]) => void;
+
+class NetworkLog {
+  private entries: NetworkLogEntry[] = [];
+  private listeners = new Set<Listener>();
+  private nextId = 1;
+
+  record(entry: Omit<NetworkLogEntry, 'id'>) {
+    this.entries = [...this.entries.slice(-(MAX_ENTRIES - 1)), { ...entry, id: this.nextId++ }];
+    this.notify();
+  }
+
+  getEntries(): NetworkLogEntry[] {
+    return this.entries;
+  }
+
+  clear() {
+    this.entries = [];
+    this.notify();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener(this.entries);
+    }
+  }
+}
+
+export const networkLog = new NetworkLog();
+export default networkLog;
@@ -0,0 +1,216 @@
+import type { ConnectionConfig, OIDCConfig, OIDCDiscoveryDocument, OIDCTokens } from '../types/openfga';
+import { base64UrlEncode, importPrivateKey, signJwt } from '../utils/jwt';
+
+// Route the identity provider redirects back to after sign-in
+export const OIDC_CALLBACK_PATH = '/oidc/callback';
+
+// Login in progress, kept across the redirect to the identity provider
+const PENDING_LOGIN_KEY = 'openfga-ui-oidc-pending';
+
+// Used when the provider does not say how long a token lives
+const DEFAULT_TOKEN_LIFETIME_S = 3600;
+
+// Client assertions only need to outlive the token request
+const CLIENT_ASSERTION_LIFETIME_S = 300;
+
+const JWT_BEARER_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+// Only identifiers go into sessionStorage; the connection itself, with its
+// credentials, is kept by the app store under the chosen storage mode
+interface PendingLogin {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  profileId: string | null;
+}
+
+export function getRedirectUri(): string {
+  return `${window.location.origin}${OIDC_CALLBACK_PATH}`;
+}
+
+export function isAuthorizationCodeFlow(config: ConnectionConfig): boolean {
+  return config.authMethod === 'oidc' && config.oidcConfig?.grantType === 'authorization_code';
+}
+
+// True when the page was loaded as the provider's redirect back to us
+export function isOidcCallback(): boolean {
+  return window.location.pathname === OIDC_CALLBACK_PATH;
+}
+
+function randomString(byteLength: number): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// RFC 7636 S256 challenge for a code verifier
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+// Look up the provider's endpoints from its issuer URL
+export async function discoverOidc(issuer: string): Promise<OIDCDiscoveryDocument> {
+  const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed: HTTP ${response.status} from ${url}`);
+  }
+  const document: OIDCDiscoveryDocument = await response.json();
+  if (!document.token_endpoint) {
+    throw new Error('OIDC discovery document has no token_endpoint');
+  }
+  return document;
+}
+
+// POST a form to the token endpoint and normalize the answer
+export async function requestTokens(tokenEndpoint: string, params: URLSearchParams): Promise<OIDCTokens> {
+  const response = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OIDC token fetch failed: ${errorText}`);
+  }
+
+  const data = await response.json();
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (data.expires_in || DEFAULT_TOKEN_LIFETIME_S) * 1000,
+    refreshToken: data.refresh_token,
+  };
+}
+
+// Signed JWT that authenticates the client instead of a shared secret (RFC 7523)
+async function createClientAssertion(oidc: OIDCConfig): Promise<string> {
+  if (!oidc.privateKeyPem) {
+    throw new Error('A private key is required for private_key_jwt client authentication');
+  }
+  const alg = oidc.signingAlgorithm || 'RS256';
+  const key = await importPrivateKey(oidc.privateKeyPem, alg);
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    {
+      iss: oidc.clientId,
+      sub: oidc.clientId,
+      aud: oidc.tokenEndpoint,
+      jti: randomString(16),
+      iat: now,
+      exp: now + CLIENT_ASSERTION_LIFETIME_S,
+    },
+    key,
+    alg,
+    oidc.keyId || undefined
+  );
+}
+
+async function clientParams(oidc: OIDCConfig, grantType: string): Promise<URLSearchParams> {
+  const params = new URLSearchParams();
+  params.set('grant_type', grantType);
+  params.set('client_id', oidc.clientId);
+  if (oidc.clientAuthMethod === 'private_key_jwt') {
+    params.set('client_assertion_type', JWT_BEARER_ASSERTION_TYPE);
+    params.set('client_assertion', await createClientAssertion(oidc));
+  } else if (oidc.clientSecret) {
+    // Public clients authenticate with PKCE alone
+    params.set('client_secret', oidc.clientSecret);
+  }
+  return params;
+}
+
+export async function fetchClientCredentialsTokens(oidc: OIDCConfig): Promise<OIDCTokens> {
+  const params = await clientParams(oidc, 'client_credentials');
+  if (oidc.audience) {
+    params.set('audience', oidc.audience);
+  }
+  if (oidc.scopes) {
+    params.set('scope', oidc.scopes);
+  }
+  return requestTokens(oidc.tokenEndpoint, params);
+}
+
+export async function refreshTokens(oidc: OIDCConfig, refreshToken: string): Promise<OIDCTokens> {
+  const params = await clientParams(oidc, 'refresh_token');
+  params.set('refresh_token', refreshToken);
+  return requestTokens(oidc.tokenEndpoint, params);
+}
+
+// Send the browser to the provider's login page. The caller saves the
+// connection first; completeAuthorizationCodeLogin looks it up again by profile.
+export async function beginAuthorizationCodeLogin(config: ConnectionConfig, profileId: string | null): Promise<void> {
+  const oidc = config.oidcConfig;
+  if (!oidc?.authorizationEndpoint) {
+    throw new Error('OIDC authorization endpoint is missing. Enter it or discover it from the issuer.');
+  }
+
+  const pending: PendingLogin = {
+    state: randomString(16),
+    codeVerifier: randomString(32),
+    redirectUri: getRedirectUri(),
+    profileId,
+  };
+
+  const url = new URL(oidc.authorizationEndpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', oidc.clientId);
+  url.searchParams.set('redirect_uri', pending.redirectUri);
+  url.searchParams.set('scope', oidc.scopes || 'openid offline_access');
+  url.searchParams.set('state', pending.state);
+  url.searchParams.set('code_challenge', await codeChallenge(pending.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (oidc.audience) {
+    url.searchParams.set('audience', oidc.audience);
+  }
+
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+  window.location.assign(url.toString());
+}
+
+// Exchange the code from the callback URL for tokens and return the
+// connection that started the login, now carrying those tokens. getConnection
+// returns the saved connection (with its secrets) for the login's profile.
+export async function completeAuthorizationCodeLogin(
+  getConnection: (profileId: string | null) => ConnectionConfig | undefined
+): Promise<ConnectionConfig> {
+  const raw = sessionStorage.getItem(PENDING_LOGIN_KEY);
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+  const query = new URLSearchParams(window.location.search);
+  const error = query.get('error');
+  if (error) {
+    throw new Error(`OIDC sign-in failed: ${query.get('error_description') || error}`);
+  }
+  if (!raw) {
+    throw new Error('No OIDC sign-in in progress. Start it again from Server Connection.');
+  }
+
+  const pending: PendingLogin = JSON.parse(raw);
+  if (query.get('state') !== pending.state) {
+    throw new Error('OIDC sign-in failed: the state returned by the provider does not match');
+  }
+  const code = query.get('code');
+  if (!code) {
+    throw new Error('OIDC sign-in failed: no authorization code in the callback');
+  }
+  const config = getConnection(pending.profileId);
+  const oidc = config?.oidcConfig;
+  if (!config || !oidc || !isAuthorizationCodeFlow(config)) {
+    throw new Error('OIDC sign-in failed: the connection that started it is no longer saved. Start it again from Server Connection.');
+  }
+
+  const params = await clientParams(oidc, 'authorization_code');
+  params.set('code', code);
+  params.set('redirect_uri', pending.redirectUri);
+  params.set('code_verifier', pending.codeVerifier);
+  const tokens = await requestTokens(oidc.tokenEndpoint, params);
+
+  return {
+    ...config,
+    cachedOidcToken: tokens.accessToken,
+    cachedOidcTokenExpiry: tokens.expiresAt,
+    cachedOidcRefreshToken: tokens.refreshToken,
+  };
+}
@@ -0,0 +1,538 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthorizationModel, Page, RetryAttempt, TupleKey } from '../types/openfga';
+import { OpenFGAApiError } from './api-error';
+import { InMemoryBackend } from './memory-backend';
+import { isAbortError, openfgaApi } from './openfga-api';
+import type { Transport } from './transport';
+
+// Answers each request with the next scripted response; the last one repeats
+class ScriptedTransport implements Transport {
+  calls: string[] = [];
+
+  constructor(private responses: Array<() => Response | Promise<Response>>) {}
+
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    this.calls.push(`${init.method || 'GET'} ${new URL(url).pathname}`);
+    const next = this.responses.length > 1 ? this.responses.shift()! : this.responses[0];
+    return next();
+  }
+}
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) => () =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const emptyStores = json(200, { stores: [], continuation_token: '' });
+
+// user and doc#viewer, enough for tuple reads and writes
+const model: Omit<AuthorizationModel, 'id'> = {
+  schema_version: '1.1',
+  type_definitions: [
+    { type: 'user' },
+    {
+      type: 'doc',
+      relations: { viewer: { this: {} } },
+      metadata: { relations: { viewer: { directly_related_user_types: [{ type: 'user' }] } } },
+    },
+  ],
+};
+
+const viewers = (count: number, from = 0): TupleKey[] =>
+  Array.from({ length: count }, (_, i) => ({ user: `user:${from + i}`, relation: 'viewer', object: 'doc:1' }));
+
+describe('request retries', () => {
+  let retries: RetryAttempt[];
+  const onRetry = (attempt: RetryAttempt) => retries.push(attempt);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    openfgaApi.setConfig({ serverUrl: 'http://fga.test', authMethod: 'none' });
+    openfgaApi.setMaxRetries(3);
+    retries = [];
+  });
+
+  afterEach(() => {
+    openfgaApi.setTransport(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially on retryable statuses', async () => {
+    const transport = new ScriptedTransport([json(503, {}), json(502, {}), json(429, {}), emptyStores]);
+    openfgaApi.setTransport(transport);
+
+    const response = openfgaApi.listStores(100, undefined, { onRetry });
+    await vi.runAllTimersAsync();
+
+    expect((await response).stores).toEqual([]);
+    expect(transport.calls).toHaveLength(4);
+    // With no jitter the wait is half the backoff: 500ms, 1s, 2s
+    expect(retries.map((r) => [r.attempt, r.delayMs, r.reason])).toEqual([
+      [1, 250, 'HTTP 503'],
+      [2, 500, 'HTTP 502'],
+      [3, 1000, 'HTTP 429'],
+    ]);
+  });
+
+  it('waits as long as Retry-After asks, in seconds or as a date', async () => {
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const transport = new ScriptedTransport([
+      json(429, {}, { 'Retry-After': '3' }),
+      json(429, {}, { 'Retry-After': 'Wed, 01 Jan 2025 00:00:10 GMT' }),
+      json(429, {}, { 'Retry-After': '3600' }),
+      emptyStores,
+    ]);
+    openfgaApi.setTransport(transport);
+
+    const response = openfgaApi.listStores(100, undefined, { onRetry });
+    await vi.runAllTimersAsync();
+    await response;
+
+    // The date is 7s away once the first 3s wait is over; an hour is capped at a minute
+    expect(retries.map((r) => r.delayMs)).toEqual([3000, 7000, 60000]);
+  });
+
+  it('gives up after maxRetries with the last error', async () => {
+    openfgaApi.setMaxRetries(2);
+    const transport = new ScriptedTransport([json(503, { code: 'unavailable', message: 'try later' })]);
+    openfgaApi.setTransport(transport);
+
+    const response = openfgaApi.listStores(100, undefined, { onRetry }).catch((error: unknown) => error);
+    await vi.runAllTimersAsync();
+
+    const error = await response;
+    expect(error).toBeInstanceOf(OpenFGAApiError);
+    expect(error).toMatchObject({ status: 503, code: 'unavailable' });
+    expect(transport.calls).toHaveLength(3);
+  });
+
+  it('does not retry client errors or writes', async () => {
+    const transport = new ScriptedTransport([json(503, {})]);
+    openfgaApi.setTransport(transport);
+
+    await expect(
+      openfgaApi.writeTuples('store', { writes: { tuple_keys: [{ user: 'user:a', relation: 'r', object: 'doc:1' }] } })
+    ).rejects.toMatchObject({ status: 503 });
+    expect(transport.calls).toEqual(['POST /stores/store/write']);
+
+    const badRequest = new ScriptedTransport([json(400, { code: 'validation_error', message: 'bad' })]);
+    openfgaApi.setTransport(badRequest);
+    await expect(openfgaApi.listStores()).rejects.toMatchObject({ status: 400 });
+    expect(badRequest.calls).toHaveLength(1);
+    expect(retries).toEqual([]);
+  });
+
+  it('retries network failures', async () => {
+    const transport = new ScriptedTransport([
+      () => Promise.reject(new TypeError('Failed to fetch')),
+      emptyStores,
+    ]);
+    openfgaApi.setTransport(transport);
+
+    const response = openfgaApi.listStores(100, undefined, { onRetry });
+    await vi.runAllTimersAsync();
+
+    await response;
+    expect(retries.map((r) => r.reason)).toEqual(['Failed to fetch']);
+  });
+
+  it('stops waiting when the request is cancelled', async () => {
+    openfgaApi.setTransport(new ScriptedTransport([json(503, {})]));
+    const controller = new AbortController();
+
+    const response = openfgaApi.listStores(100, undefined, { signal: controller.signal, onRetry }).catch((error: unknown) => error);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    expect(isAbortError(await response)).toBe(true);
+    expect(retries).toHaveLength(1);
+  });
+});
+
+describe('pagination iterators', () => {
+  const tuples = viewers(25);
+  let storeId: string;
+
+  const collect = async <T>(pages: AsyncGenerator<Page<T>>) => {
+    const result: Page<T>[] = [];
+    for await (const page of pages) result.push(page);
+    return result;
+  };
+
+  beforeEach(() => {
+    const backend = new InMemoryBackend();
+    storeId = backend.addStore('paged', model, tuples).id;
+    backend.addStore('second', model);
+    backend.addStore('third', model);
+    openfgaApi.setConfig({ serverUrl: 'http://fga.test', authMethod: 'none' });
+    openfgaApi.setTransport(backend);
+  });
+
+  afterEach(() => {
+    openfgaApi.setTransport(null);
+  });
+
+  it('follows continuation tokens to the last page', async () => {
+    const pages = await collect(openfgaApi.iterateTuples(storeId, undefined, { pageSize: 10 }));
+    expect(pages.map((p) => p.items.length)).toEqual([10, 10, 5]);
+    expect(pages.map((p) => p.continuationToken === null)).toEqual([false, false, true]);
+    expect(pages.flatMap((p) => p.items.map((t) => t.key))).toEqual(tuples);
+  });
+
+  it('stops at maxItems with a token that resumes right after the last item', async () => {
+    const first = await collect(openfgaApi.iterateTuples(storeId, undefined, { pageSize: 10, maxItems: 15 }));
+    expect(first.map((p) => p.items.length)).toEqual([10, 5]);
+
+    const continuationToken = first[first.length - 1].continuationToken!;
+    const rest = await collect(openfgaApi.iterateTuples(storeId, undefined, { pageSize: 10, continuationToken }));
+    expect([...first, ...rest].flatMap((p) => p.items.map((t) => t.key))).toEqual(tuples);
+  });
+
+  it('pages through stores and filters tuples', async () => {
+    const stores = await collect(openfgaApi.iterateStores({ pageSize: 2 }));
+    expect(stores.map((p) => p.items.map((s) => s.name))).toEqual([['paged', 'second'], ['third']]);
+
+    const filtered = await collect(openfgaApi.iterateTuples(storeId, { user: 'user:7', object: 'doc:1' }));
+    expect(filtered.flatMap((p) => p.items.map((t) => t.key.user))).toEqual(['user:7']);
+  });
+
+  it('ends early when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pages = openfgaApi.iterateTuples(storeId, undefined, { pageSize: 10, signal: controller.signal });
+
+    expect((await pages.next()).value?.items).toHaveLength(10);
+    controller.abort();
+    const error = await pages.next().catch((e: unknown) => e);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
+
+describe('bulk writes', () => {
+  let backend: InMemoryBackend;
+  let storeId: string;
+  let writeRequests: number;
+
+  const storedUsers = async () => {
+    const users: string[] = [];
+    for await (const page of openfgaApi.iterateTuples(storeId, undefined, { noCache: true })) {
+      users.push(...page.items.map((t) => t.key.user));
+    }
+    return users;
+  };
+
+  beforeEach(() => {
+    backend = new InMemoryBackend();
+    storeId = backend.addStore('bulk', model, viewers(5)).id;
+    writeRequests = 0;
+    openfgaApi.setConfig({ serverUrl: 'http://fga.test', authMethod: 'none' });
+    openfgaApi.setTransport({
+      fetch: (url, init) => {
+        if (url.endsWith('/write')) writeRequests++;
+        return backend.fetch(url, init);
+      },
+    });
+  });
+
+  afterEach(() => {
+    openfgaApi.setTransport(null);
+  });
+
+  it('splits addTuples and deleteTuples into chunks the server accepts', async () => {
+    await openfgaApi.addTuples(storeId, viewers(250, 100));
+    expect(writeRequests).toBe(3);
+    const { tuples } = await openfgaApi.readTuples(storeId, 100, undefined, { user: 'user:349', relation: 'viewer', object: 'doc:1' });
+    expect(tuples).toHaveLength(1);
+
+    await openfgaApi.deleteTuples(storeId, viewers(250, 100));
+    expect(writeRequests).toBe(6);
+    expect(await storedUsers()).toHaveLength(5);
+  });
+
+  it('throws the first failing chunk\'s error from addTuples and sends nothing after it', async () => {
+    const error = await openfgaApi.addTuples(storeId, [...viewers(100, 100), ...viewers(1), ...viewers(10, 300)]).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(OpenFGAApiError);
+    expect(error).toMatchObject({ code: 'write_failed_due_to_invalid_input' });
+    expect(writeRequests).toBe(2);
+    expect(await storedUsers()).toHaveLength(105);
+  });
+
+  it('skips duplicates and missing tuples only when asked', async () => {
+    const progress: number[] = [];
+    const result = await openfgaApi.bulkWrite(
+      storeId,
+      { writes: viewers(10), deletes: viewers(3, 50), ignoreDuplicates: true, ignoreMissing: true },
+      { chunkSize: 4, onProgress: (p) => progress.push(p.completedChunks) }
+    );
+    expect(result.chunks.map((c) => [c.operation, c.tuples.length, c.success])).toEqual([
+      ['write', 4, true],
+      ['write', 4, true],
+      ['write', 2, true],
+      ['delete', 3, true],
+    ]);
+    expect(progress).toEqual([1, 2, 3, 4]);
+    expect(await storedUsers()).toHaveLength(10);
+
+    const strict = await openfgaApi.bulkWrite(storeId, { deletes: viewers(3, 50) });
+    expect(strict.chunks[0]).toMatchObject({ success: false, error: { code: 'write_failed_due_to_invalid_input' } });
+    expect(strict.failedTuples).toBe(3);
+  });
+
+  it('carries on past a failed chunk unless stopOnError is set', async () => {
+    const writes = [...viewers(2, 100), ...viewers(2), ...viewers(2, 200)];
+    const lenient = await openfgaApi.bulkWrite(storeId, { writes }, { chunkSize: 2 });
+    expect(lenient.chunks.map((c) => c.success)).toEqual([true, false, true]);
+    expect(lenient).toMatchObject({ succeededTuples: 4, failedTuples: 2, skippedTuples: 0 });
+
+    const strict = await openfgaApi.bulkWrite(storeId, { writes: [...viewers(2), ...viewers(2, 300)] }, { chunkSize: 2, stopOnError: true });
+    expect(strict.chunks.map((c) => c.success)).toEqual([false]);
+    expect(strict).toMatchObject({ succeededTuples: 0, failedTuples: 2, skippedTuples: 2 });
+  });
+
+  it('never deletes after a write failed', async () => {
+    const result = await openfgaApi.bulkWrite(storeId, { writes: viewers(1), deletes: viewers(4, 1) });
+    expect(result.chunks.map((c) => c.operation)).toEqual(['write']);
+    expect(result).toMatchObject({ failedTuples: 1, skippedTuples: 4 });
+    expect(await storedUsers()).toHaveLength(5);
+  });
+
+  it('rejects a key that is both written and deleted, and a chunk size below 1', async () => {
+    const withCondition: TupleKey = { ...viewers(1)[0], condition: { name: 'in_office' } };
+    await expect(openfgaApi.bulkWrite(storeId, { writes: [withCondition], deletes: viewers(1) })).rejects.toThrow(
+      'Tuple doc:1#viewer@user:0 is both written and deleted'
+    );
+    await expect(openfgaApi.bulkWrite(storeId, { writes: viewers(1, 100) }, { chunkSize: 0 })).rejects.toThrow('Invalid chunk size 0');
+    expect(writeRequests).toBe(0);
+  });
+});
+
+describe('capability probe', () => {
+  // Answers each optional endpoint with its own response
+  const probeWith = (responses: Record<string, () => Response | Promise<Response>>) => {
+    openfgaApi.setConfig({ serverUrl: 'http://fga.test', authMethod: 'none' });
+    openfgaApi.setTransport({
+      fetch: async (url) => responses[url.split('/').pop()!](),
+    });
+    return openfgaApi.probeCapabilities();
+  };
+
+  afterEach(() => {
+    openfgaApi.setTransport(null);
+  });
+
+  it('treats a rejected request as a supported endpoint', async () => {
+    expect(await probeWith({
+      'list-users': json(400, { code: 'validation_error', message: 'invalid ListUsersRequest' }),
+      'batch-check': json(404, { code: 'store_id_not_found', message: 'store not found' }),
+      'streamed-list-objects': () => new Response('upstream error', { status: 500 }),
+    })).toEqual({ listUsers: true, batchCheck: true, streamedListObjects: true });
+  });
+
+  it('recognises the ways a server says it has no such route', async () => {
+    expect(await probeWith({
+      'list-users': json(404, { code: 'undefined_endpoint', message: 'Not Found' }),
+      'batch-check': json(404, { code: 5, message: 'Not Found' }),
+      'streamed-list-objects': json(501, { code: 'unimplemented', message: 'not implemented' }),
+    })).toEqual({ listUsers: false, batchCheck: false, streamedListObjects: false });
+
+    expect((await probeWith({
+      'list-users': () => new Response('', { status: 405 }),
+      'batch-check': emptyStores,
+      'streamed-list-objects': emptyStores,
+    })).listUsers).toBe(false);
+  });
+
+  it('does not take a bare 404 or an unreachable server for a missing endpoint', async () => {
+    expect(await probeWith({
+      'list-users': () => new Response('<html>Not Found</html>', { status: 404 }),
+      'batch-check': () => Promise.reject(new TypeError('Failed to fetch')),
+      'streamed-list-objects': emptyStores,
+    })).toEqual({ listUsers: true, batchCheck: undefined, streamedListObjects: true });
+  });
+});
+
+describe('request scoping', () => {
+  afterEach(() => {
+    openfgaApi.setTransport(null);
+    vi.restoreAllMocks();
+  });
+
+  it('removes its abort listeners once requests settle', async () => {
+    const backend = new InMemoryBackend();
+    const storeId = backend.addStore('scoped', model, viewers(3)).id;
+    openfgaApi.setConfig({ serverUrl: 'http://fga.test', authMethod: 'none' });
+    openfgaApi.setTransport(backend);
+
+    const listening = new Set<EventListenerOrEventListenerObject | null>();
+    const add = EventTarget.prototype.addEventListener;
+    const remove = EventTarget.prototype.removeEventListener;
+    vi.spyOn(EventTarget.prototype, 'addEventListener').mockImplementation(function (this: EventTarget, type, listener, options) {
+      if (type === 'abort') listening.add(listener);
+      add.call(this, type, listener, options);
+    });
+    vi.spyOn(EventTarget.prototype, 'removeEventListener').mockImplementation(function (this: EventTarget, type, listener, options) {
+      if (type === 'abort') listening.delete(listener);
+      remove.call(this, type, listener, options);
+    });
+
+    await openfgaApi.listStores();
+    await openfgaApi.readTuples(storeId, 100, undefined, undefined, { noCache: true });
+    await openfgaApi.listStores(100, 'not-a-token').catch(() => undefined);
+    await openfgaApi.streamedListObjects(storeId, { type: 'doc', relation: 'viewer', user: 'user:1' }, () => undefined);
+    expect(listening.size).toBe(0);
+  });
+});
+
+describe('batch check', () => {
+  let backend: InMemoryBackend;
+  let storeId: string;
+  let calls: string[];
+
+  // Passes requests to the in-memory server, which can pretend to predate /batch-check
+  const serve = ({ batchCheck }: { batchCheck: boolean }) => {
+    openfgaApi.setTransport({
+      fetch: (url, init) => {
+        const endpoint = url.split('/').pop()!;
+        calls.push(endpoint);
+        if (!batchCheck && endpoint === 'batch-check') {
+          return Promise.resolve(json(404, { code: 'undefined_endpoint', message: 'Not Found' })());
+        }
+        return backend.fetch(url, init);
+      },
+    });
+  };
+
+  // 120 checks: user:0..4 are viewers, and the last one names an unknown relation
+  const checks = [
+    ...Array.from({ length: 119 }, (_, i) => ({
+      correlation_id: `c${i}`,
+      tuple_key: { user: `user:${i}`, relation: 'viewer', object: 'doc:1' },
+    })),
+    { correlation_id: 'bad', tuple_key: { user: 'user:0', relation: 'owner', object: 'doc:1' } },
+  ];
+
+  const expectResults = (result: Record<string, { allowed?: boolean; error?: unknown }>) => {
+    expect(Object.keys(result)).toHaveLength(120);
+    expect(['c0', 'c4', 'c5', 'c118'].map((id) => result[id].allowed)).toEqual([true, true, false, false]);
+    expect(result.bad.error).toBeDefined();
+  };
+
+  beforeEach(() => {
+    backend = new InMemoryBackend();
+    storeId = backend.addStore('checks', model, viewers(5)).id;
+    calls = [];
+    openfgaApi.setConfig({ serverUrl: 'http://fga.test', authMethod: 'none' });
+  });
+
+  afterEach(() => {
+    openfgaApi.setTransport(null);
+  });
+
+  it('splits the checks into chunks of 50', async () => {
+    serve({ batchCheck: true });
+    const { result } = await openfgaApi.batchCheck(storeId, { checks });
+    expect(calls).toEqual(['batch-check', 'batch-check', 'batch-check']);
+    expectResults(result);
+  });
+
+  it('falls back to one /check per item when the server has no /batch-check', async () => {
+    serve({ batchCheck: false });
+    const { result } = await openfgaApi.batchCheck(storeId, { checks });
+    expect(calls.filter((c) => c === 'check')).toHaveLength(120);
+    expectResults(result);
+
+    // Once known to be missing, the endpoint is not tried again
+    calls = [];
+    await openfgaApi.batchCheck(storeId, { checks: checks.slice(0, 2) });
+    expect(calls).toEqual(['check', 'check']);
+  });
+
+  it('does not fall back when the server rejects the request', async () => {
+    serve({ batchCheck: true });
+    await expect(openfgaApi.batchCheck('01ARZ3NDEKTSV4RRFFQ69G5FAV', { checks })).rejects.toMatchObject({
+      status: 404,
+      code: 'store_id_not_found',
+    });
+    expect(calls).not.toContain('check');
+  });
+});
+
+describe('streamed list objects', () => {
+  const request = { type: 'doc', relation: 'viewer', user: 'user:anne' };
+  let cancelled: boolean;
+
+  // An NDJSON body delivered in the given chunks. With close unset it stays
+  // open, like a server that is still streaming.
+  const stream = (chunks: (string | Uint8Array)[], close = true) => () => {
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+        if (close) controller.close();
+      },
+      cancel() {
+        cancelled = true;
+      },
+    }), { status: 200, headers: { 'Content-Type': 'application/x-ndjson' } });
+  };
+
+  const collect = async (transport: Transport) => {
+    openfgaApi.setTransport(transport);
+    const batches: string[][] = [];
+    const error = await openfgaApi
+      .streamedListObjects('store', request, (objects) => batches.push(objects))
+      .then(() => undefined, (e: unknown) => e);
+    return { batches, objects: batches.flat(), error };
+  };
+
+  beforeEach(() => {
+    cancelled = false;
+    openfgaApi.setConfig({ serverUrl: 'http://fga.test', authMethod: 'none' });
+  });
+
+  afterEach(() => {
+    openfgaApi.setTransport(null);
+  });
+
+  it('joins lines split across chunks, including inside a multi-byte character', async () => {
+    const line = (object: string) => JSON.stringify({ result: { object } }) + '\n';
+    const body = new TextEncoder().encode(line('doc:1') + line('doc:café') + line('doc:3'));
+    const splitAt = body.indexOf(0xc3) + 1; // Between the two bytes of "é"
+
+    const { objects, error } = await collect(new ScriptedTransport([
+      stream([body.slice(0, 5), body.slice(5, splitAt), body.slice(splitAt)]),
+    ]));
+    expect(error).toBeUndefined();
+    expect(objects).toEqual(['doc:1', 'doc:café', 'doc:3']);
+  });
+
+  it('reads a last line without a trailing newline', async () => {
+    const { batches } = await collect(new ScriptedTransport([
+      stream(['{"result":{"object":"doc:1"}}\n{"result":{"object":"doc:2"}}']),
+    ]));
+    expect(batches).toEqual([['doc:1'], ['doc:2']]);
+  });
+
+  it('stops at an error line, keeping what came before and closing the stream', async () => {
+    const { objects, error } = await collect(new ScriptedTransport([
+      stream([
+        '{"result":{"object":"doc:1"}}\n',
+        '{"error":{"code":4,"message":"deadline exceeded"}}\n',
+        '{"result":{"object":"doc:2"}}\n',
+      ], false),
+    ]));
+    expect(objects).toEqual(['doc:1']);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe('deadline exceeded');
+    expect(cancelled).toBe(true);
+  });
+
+  it('falls back to /list-objects on a server without the endpoint', async () => {
+    const transport = new ScriptedTransport([
+      json(404, { code: 'undefined_endpoint', message: 'Not Found' }),
+      json(200, { objects: ['doc:1', 'doc:2'] }),
+    ]);
+    const { batches } = await collect(transport);
+    expect(batches).toEqual([['doc:1', 'doc:2']]);
+    expect(transport.calls).toEqual(['POST /stores/store/streamed-list-objects', 'POST /stores/store/list-objects']);
+  });
+});
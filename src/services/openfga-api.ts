@@ -1,39 +1,243 @@
 import type {
+    Assertion,
     AuthorizationModel,
+    BatchCheckRequest,
+    BatchCheckResponse,
+    BatchCheckSingleResult,
+    BulkWriteChunkResult,
+    BulkWriteProgress,
+    BulkWriteRequest,
+    BulkWriteResult,
     CheckRequest,
     CheckResponse,
     ConnectionConfig,
+    ConsistencyPreference,
     ExpandRequest,
     ExpandResponse,
+    IterateOptions,
     ListAuthorizationModelsResponse,
     ListObjectsRequest,
     ListObjectsResponse,
     ListStoresResponse,
     ListUsersRequest,
     ListUsersResponse,
-    OpenFGAError,
+    NetworkLogEntry,
+    OIDCTokens,
+    Page,
+    ReadAssertionsResponse,
     ReadAuthorizationModelResponse,
+    ReadChangesResponse,
     ReadTuplesResponse,
+    RequestOptions,
+    RetryAttempt,
+    ServerCapabilities,
     Store,
+    StreamedListObjectsResponse,
     Tuple,
     TupleKey,
+    WriteAssertionsRequest,
     WriteTuplesRequest,
 } from '../types/openfga';
+import { OpenFGAApiError } from './api-error';
+import { getDemoBackend } from './memory-backend';
+import { networkLog } from './network-log';
+import { fetchClientCredentialsTokens, refreshTokens } from './oidc';
+import { ResponseCache } from './response-cache';
+import { httpTransport, isMemoryServerUrl } from './transport';
+import type { Transport } from './transport';
+
+// Default OPENFGA_MAX_CHECKS_PER_BATCH_CHECK on the server
+const BATCH_CHECK_MAX_ITEMS = 50;
+
+// Default OPENFGA_MAX_TUPLES_PER_WRITE on the server
+const WRITE_MAX_TUPLES = 100;
+
+// Largest page the read and list endpoints accept
+const MAX_PAGE_SIZE = 100;
+
+// Well-formed store ID that no real store has, used to probe endpoints
+const PROBE_STORE_ID = '01ARZ3NDEKTSV4RRFFQ69G5FAV';
+
+// How long cached model lists and tuple pages are served before being
+// fetched again; writes made through this client drop them immediately.
+// Models fetched by ID never change and stay cached until evicted.
+const CACHE_TTL_MS = 60000;
+
+// Retry timing: exponential backoff from RETRY_BASE_DELAY_MS, capped at
+// RETRY_MAX_DELAY_MS. A server-sent Retry-After may ask for up to RETRY_AFTER_MAX_MS.
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 10000;
+const RETRY_AFTER_MAX_MS = 60000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+type RequestInitWithRetry = RequestInit & RequestOptions & {
+  // Whether a failed request may be sent again; defaults to true for GET only
+  retryable?: boolean;
+};
+
+type TokenListener = (config: ConnectionConfig) => void;
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+// Wait before a retry, giving up early if the request is cancelled meanwhile
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// A signal that aborts as soon as any of the given signals does. Call dispose
+// once the request settles: the scope signal lives until the next store switch
+// and would otherwise keep a listener for every request made meanwhile.
+function anySignal(signals: (AbortSignal | undefined)[]): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const cleanups: (() => void)[] = [];
+  const onAbort = () => controller.abort();
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort();
+      break;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    cleanups.push(() => signal.removeEventListener('abort', onAbort));
+  }
+  return { signal: controller.signal, dispose: () => cleanups.forEach((cleanup) => cleanup()) };
+}
+
+// True for failures caused by cancelling a request rather than by the server
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Codes a 404 carries when the server has no such route: OpenFGA's own, and
+// grpc-gateway's numeric NotFound for a path it does not know
+const MISSING_ENDPOINT_CODES = new Set(['undefined_endpoint', '5']);
+
+// True when the server lacks the endpoint itself (405, 501, or a 404 with one
+// of the codes above), as opposed to rejecting the request, e.g. a 404
+// store_id_not_found for a deleted store or a 500 without an error body
+function isMissingEndpoint(error: OpenFGAApiError): boolean {
+  if (error.status === 405 || error.status === 501) return true;
+  return error.status === 404 && MISSING_ENDPOINT_CODES.has(error.code);
+}
 
 class OpenFGAApiService {
   private config: ConnectionConfig = {
     serverUrl: '',
     authMethod: 'none',
   };
+  // Set once a server answers /batch-check with "not found" / "not implemented"
+  private batchCheckUnsupported = false;
+  // Same for /streamed-list-objects
+  private streamedListObjectsUnsupported = false;
+  private defaultConsistency: ConsistencyPreference = 'UNSPECIFIED';
+  private maxRetries = 3;
+  // Aborted whenever the store, model or connection changes, cancelling
+  // outstanding reads so their responses cannot land in the new context
+  private scopeController = new AbortController();
+  private tokenListeners = new Set<TokenListener>();
+  private transport: Transport = httpTransport;
+  private transportOverride: Transport | null = null;
+  private cache = new ResponseCache();
+  private cacheBypassed = false;
 
   setConfig(config: ConnectionConfig) {
+    this.abortPending();
     this.config = config;
+    this.transport = this.transportFor(config);
+    this.cache.clear();
+    this.batchCheckUnsupported = false;
+    this.streamedListObjectsUnsupported = false;
+  }
+
+  // Send every request through the given transport (e.g. an InMemoryBackend
+  // in tests) whatever the server URL; null goes back to the default
+  setTransport(transport: Transport | null) {
+    this.transportOverride = transport;
+    this.transport = this.transportFor(this.config);
+    this.cache.clear();
+  }
+
+  private transportFor(config: ConnectionConfig): Transport {
+    if (this.transportOverride) return this.transportOverride;
+    return isMemoryServerUrl(config.serverUrl) ? getDemoBackend() : httpTransport;
   }
 
   getConfig(): ConnectionConfig {
     return this.config;
   }
 
+  setDefaultConsistency(consistency: ConsistencyPreference) {
+    this.defaultConsistency = consistency;
+  }
+
+  // Cancel every in-flight read; writes are left to finish
+  abortPending() {
+    this.scopeController.abort();
+    this.scopeController = new AbortController();
+  }
+
+  setMaxRetries(maxRetries: number) {
+    this.maxRetries = Math.max(0, maxRetries);
+  }
+
+  // Debugging aid: send every read to the server instead of the cache
+  setCacheBypassed(bypassed: boolean) {
+    this.cacheBypassed = bypassed;
+    this.cache.clear();
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  // Serve a read from the cache, or load and cache it. A response that
+  // arrives after an invalidation is returned but not cached, since a write
+  // may have landed while it was in flight.
+  private async cached<T>(key: string, ttlMs: number, options: RequestOptions, load: () => Promise<T>): Promise<T> {
+    if (!this.cacheBypassed && !options.noCache) {
+      const hit = this.cache.get<T>(key);
+      if (hit !== undefined) return hit;
+    }
+    const generation = this.cache.getGeneration();
+    const value = await load();
+    if (!this.cacheBypassed && this.cache.getGeneration() === generation) {
+      this.cache.set(key, value, ttlMs);
+    }
+    return value;
+  }
+
+  // Apply the global consistency default to a query request. UNSPECIFIED is
+  // left out of the body so servers that predate the field still accept it.
+  private withConsistency<T extends { consistency?: ConsistencyPreference }>(request: T): T {
+    const consistency = request.consistency || this.defaultConsistency;
+    return {
+      ...request,
+      consistency: consistency === 'UNSPECIFIED' ? undefined : consistency,
+    };
+  }
+
+  // Called with the updated connection whenever OIDC tokens are fetched or
+  // refreshed, so a rotated refresh token survives a reload
+  onTokensChanged(listener: TokenListener): () => void {
+    this.tokenListeners.add(listener);
+    return () => {
+      this.tokenListeners.delete(listener);
+    };
+  }
+
   // Fetch OIDC token from token endpoint
   private async fetchOidcToken(): Promise<string> {
     const oidc = this.config.oidcConfig;
@@ -50,40 +254,28 @@ class OpenFGAApiService {
       }
     }
 
-    // Fetch new token
-    const params = new URLSearchParams();
-    params.set('grant_type', 'client_credentials');
-    params.set('client_id', oidc.clientId);
-    params.set('client_secret', oidc.clientSecret);
-    if (oidc.audience) {
-      params.set('audience', oidc.audience);
-    }
-    if (oidc.scopes) {
-      params.set('scope', oidc.scopes);
+    let tokens: OIDCTokens;
+    if (oidc.grantType === 'authorization_code') {
+      // A signed-in user can only be renewed with a refresh token
+      if (!this.config.cachedOidcRefreshToken) {
+        throw new Error('OIDC session expired. Disconnect and sign in again.');
+      }
+      tokens = await refreshTokens(oidc, this.config.cachedOidcRefreshToken);
+    } else {
+      tokens = await fetchClientCredentialsTokens(oidc);
     }
 
-    const response = await fetch(oidc.tokenEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params.toString(),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OIDC token fetch failed: ${errorText}`);
+    // Cache the token; providers that do not rotate refresh tokens omit them
+    this.config.cachedOidcToken = tokens.accessToken;
+    this.config.cachedOidcTokenExpiry = tokens.expiresAt;
+    if (tokens.refreshToken) {
+      this.config.cachedOidcRefreshToken = tokens.refreshToken;
+    }
+    for (const listener of this.tokenListeners) {
+      listener({ ...this.config });
     }
 
-    const data = await response.json();
-    const accessToken = data.access_token;
-    const expiresIn = data.expires_in || 3600; // Default to 1 hour
-
-    // Cache the token
-    this.config.cachedOidcToken = accessToken;
-    this.config.cachedOidcTokenExpiry = Date.now() + (expiresIn * 1000);
-
-    return accessToken;
+    return tokens.accessToken;
   }
 
   private async getHeaders(): Promise<HeadersInit> {
@@ -112,97 +304,251 @@ class OpenFGAApiService {
         break;
     }
 
+    return { ...headers, ...this.customHeaders() };
+  }
+
+  private customHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const header of this.config.customHeaders || []) {
+      if (header.name.trim()) {
+        headers[header.name.trim()] = header.value;
+      }
+    }
     return headers;
   }
 
+  // Headers whose values must not be shown: auth plus custom headers marked secret
+  private secretHeaderNames(): string[] {
+    return [
+      'authorization',
+      ...(this.config.customHeaders || []).filter(h => h.secret).map(h => h.name.trim().toLowerCase()),
+    ];
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInitWithRetry = {}
   ): Promise<T> {
+    const { onRetry, noCache: _noCache, retryable = (options.method || 'GET') === 'GET', ...init } = options;
     const url = `${this.config.serverUrl}${endpoint}`;
-    const headers = await this.getHeaders();
-    
-    const response = await fetch(url, {
+    // Reads are safe to drop on a context change; a write that already reached
+    // the server would still apply, so writes only stop on an explicit signal
+    const linked = retryable ? anySignal([init.signal ?? undefined, this.scopeController.signal]) : null;
+    const signal = linked ? linked.signal : init.signal ?? undefined;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const canRetry = retryable && attempt < this.maxRetries;
+        const requestHeaders = {
+          ...(await this.getHeaders()),
+          ...init.headers,
+        } as Record<string, string>;
+        const startedAt = performance.now();
+        const logEntry = {
+          timestamp: new Date().toISOString(),
+          method: init.method || 'GET',
+          url,
+          endpoint,
+          requestHeaders,
+          secretHeaders: this.secretHeaderNames(),
+          requestBody: typeof init.body === 'string' ? init.body : undefined,
+        };
+
+        let response: Response;
+        let responseBody: string;
+        try {
+          response = await this.transport.fetch(url, {
+            ...init,
+            headers: requestHeaders,
+            signal,
+          });
+          responseBody = await response.text();
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Network error';
+          networkLog.record({ ...logEntry, error: message, durationMs: Math.round(performance.now() - startedAt) });
+          // Network failure: connection refused, DNS, CORS rejection
+          if (!canRetry || isAbortError(error)) {
+            throw error;
+          }
+          await this.waitBeforeRetry(attempt, message, null, onRetry, signal);
+          continue;
+        }
+        networkLog.record({
+          ...logEntry,
+          status: response.status,
+          responseBody,
+          durationMs: Math.round(performance.now() - startedAt),
+        });
+
+        if (response.ok) {
+          // Some endpoints (e.g. DELETE /stores/{id}) answer 204 with no body
+          return responseBody ? JSON.parse(responseBody) : ({} as T);
+        }
+        if (canRetry && RETRYABLE_STATUSES.has(response.status)) {
+          await this.waitBeforeRetry(attempt, `HTTP ${response.status}`, response.headers.get('Retry-After'), onRetry, signal);
+          continue;
+        }
+        throw OpenFGAApiError.fromResponse(response, responseBody);
+      }
+    } finally {
+      linked?.dispose();
+    }
+  }
+
+  // Send a recorded request again with the current connection and credentials
+  async replay(entry: NetworkLogEntry, options: RequestOptions = {}): Promise<unknown> {
+    // The replayed request may be a write
+    this.cache.clear();
+    return this.request<unknown>(entry.endpoint, {
+      method: entry.method,
+      body: entry.requestBody,
+      retryable: false,
       ...options,
-      headers: {
-        ...headers,
-        ...options.headers,
-      },
     });
+  }
 
-    if (!response.ok) {
-      let errorData: OpenFGAError;
-      try {
-        errorData = await response.json();
-      } catch {
-        errorData = {
-          code: 'UNKNOWN_ERROR',
-          message: `HTTP ${response.status}: ${response.statusText}`,
-        };
+  // Exponential backoff with jitter, unless the server said how long to wait
+  private async waitBeforeRetry(
+    attempt: number,
+    reason: string,
+    retryAfter: string | null,
+    onRetry?: (attempt: RetryAttempt) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    let delayMs = this.parseRetryAfter(retryAfter);
+    if (delayMs === null) {
+      const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+      delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    }
+    onRetry?.({ attempt: attempt + 1, maxRetries: this.maxRetries, delayMs, reason });
+    await sleep(delayMs, signal);
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+    const seconds = Number(value);
+    const ms = Number.isNaN(seconds) ? Date.parse(value) - Date.now() : seconds * 1000;
+    if (Number.isNaN(ms)) return null;
+    return Math.min(RETRY_AFTER_MAX_MS, Math.max(0, ms));
+  }
+
+  // Follow continuation tokens, yielding one page at a time. Pages shrink
+  // near maxItems so the returned token still resumes right after the last
+  // item. Ends early when the signal aborts.
+  private async *paginate<T>(
+    fetchPage: (pageSize: number, continuationToken: string | undefined, options: RequestOptions) => Promise<{ items: T[]; continuationToken?: string }>,
+    options: IterateOptions
+  ): AsyncGenerator<Page<T>> {
+    const { pageSize = MAX_PAGE_SIZE, maxItems = Infinity, signal, onRetry, noCache } = options;
+    let continuationToken = options.continuationToken;
+    let remaining = maxItems;
+    while (remaining > 0) {
+      if (signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
       }
-      throw new Error(errorData.message || `Request failed with status ${response.status}`);
+      const page = await fetchPage(Math.min(pageSize, remaining), continuationToken, { signal, onRetry, noCache });
+      continuationToken = page.continuationToken || undefined;
+      remaining -= page.items.length;
+      yield { items: page.items, continuationToken: continuationToken ?? null };
+      if (!continuationToken) return;
     }
+  }
 
-    return response.json();
+  iterateStores(options: IterateOptions = {}): AsyncGenerator<Page<Store>> {
+    return this.paginate(async (pageSize, token, requestOptions) => {
+      const response = await this.listStores(pageSize, token, requestOptions);
+      return { items: response.stores, continuationToken: response.continuation_token };
+    }, options);
+  }
+
+  iterateModels(storeId: string, options: IterateOptions = {}): AsyncGenerator<Page<AuthorizationModel>> {
+    return this.paginate(async (pageSize, token, requestOptions) => {
+      const response = await this.listAuthorizationModels(storeId, pageSize, token, requestOptions);
+      return { items: response.authorization_models, continuationToken: response.continuation_token };
+    }, options);
+  }
+
+  iterateTuples(storeId: string, tupleKey?: Partial<TupleKey>, options: IterateOptions = {}): AsyncGenerator<Page<Tuple>> {
+    return this.paginate(async (pageSize, token, requestOptions) => {
+      const response = await this.readTuples(storeId, pageSize, token, tupleKey, requestOptions);
+      return { items: response.tuples, continuationToken: response.continuation_token };
+    }, options);
   }
 
   // Store operations
-  async listStores(pageSize = 100, continuationToken?: string): Promise<ListStoresResponse> {
+  async listStores(
+    pageSize = 100,
+    continuationToken?: string,
+    options: RequestOptions = {}
+  ): Promise<ListStoresResponse> {
     const params = new URLSearchParams();
     params.set('page_size', pageSize.toString());
     if (continuationToken) {
       params.set('continuation_token', continuationToken);
     }
-    return this.request<ListStoresResponse>(`/stores?${params.toString()}`);
+    return this.request<ListStoresResponse>(`/stores?${params.toString()}`, options);
   }
 
-  async getStore(storeId: string): Promise<Store> {
-    return this.request<Store>(`/stores/${storeId}`);
+  async getStore(storeId: string, options: RequestOptions = {}): Promise<Store> {
+    return this.request<Store>(`/stores/${storeId}`, options);
   }
 
-  async createStore(name: string): Promise<Store> {
+  async createStore(name: string, options: RequestOptions = {}): Promise<Store> {
     return this.request<Store>('/stores', {
       method: 'POST',
       body: JSON.stringify({ name }),
+      ...options,
     });
   }
 
-  async deleteStore(storeId: string): Promise<void> {
-    await this.request<void>(`/stores/${storeId}`, {
+  async deleteStore(storeId: string, options: RequestOptions = {}): Promise<void> {
+    await this.request<Record<string, never>>(`/stores/${storeId}`, {
       method: 'DELETE',
+      ...options,
     });
+    this.cache.invalidate(`${storeId}/`);
   }
 
   // Authorization Model operations
   async listAuthorizationModels(
     storeId: string,
     pageSize = 100,
-    continuationToken?: string
+    continuationToken?: string,
+    options: RequestOptions = {}
   ): Promise<ListAuthorizationModelsResponse> {
     const params = new URLSearchParams();
     params.set('page_size', pageSize.toString());
     if (continuationToken) {
       params.set('continuation_token', continuationToken);
     }
-    return this.request<ListAuthorizationModelsResponse>(
-      `/stores/${storeId}/authorization-models?${params.toString()}`
+    return this.cached(`${storeId}/models?${params.toString()}`, CACHE_TTL_MS, options, () =>
+      this.request<ListAuthorizationModelsResponse>(
+        `/stores/${storeId}/authorization-models?${params.toString()}`,
+        options
+      )
     );
   }
 
   async getAuthorizationModel(
     storeId: string,
-    modelId: string
+    modelId: string,
+    options: RequestOptions = {}
   ): Promise<ReadAuthorizationModelResponse> {
-    return this.request<ReadAuthorizationModelResponse>(
-      `/stores/${storeId}/authorization-models/${modelId}`
+    return this.cached(`${storeId}/model/${modelId}`, Infinity, options, () =>
+      this.request<ReadAuthorizationModelResponse>(
+        `/stores/${storeId}/authorization-models/${modelId}`,
+        options
+      )
     );
   }
 
   async getLatestAuthorizationModel(
-    storeId: string
+    storeId: string,
+    options: RequestOptions = {}
   ): Promise<ReadAuthorizationModelResponse> {
     // Get the latest model by fetching with page_size=1
-    const response = await this.listAuthorizationModels(storeId, 1);
+    const response = await this.listAuthorizationModels(storeId, 1, undefined, options);
     if (response.authorization_models.length === 0) {
       throw new Error('No authorization models found for this store');
     }
@@ -213,15 +559,39 @@ class OpenFGAApiService {
 
   async writeAuthorizationModel(
     storeId: string,
-    model: Omit<AuthorizationModel, 'id'>
+    model: Omit<AuthorizationModel, 'id'>,
+    options: RequestOptions = {}
   ): Promise<{ authorization_model_id: string }> {
-    return this.request<{ authorization_model_id: string }>(
+    const response = await this.request<{ authorization_model_id: string }>(
       `/stores/${storeId}/authorization-models`,
       {
         method: 'POST',
         body: JSON.stringify(model),
+        ...options,
       }
     );
+    this.cache.invalidate(`${storeId}/models?`);
+    return response;
+  }
+
+  // Assertion operations (stored per authorization model)
+  async readAssertions(storeId: string, modelId: string, options: RequestOptions = {}): Promise<ReadAssertionsResponse> {
+    return this.request<ReadAssertionsResponse>(`/stores/${storeId}/assertions/${modelId}`, options);
+  }
+
+  // Replaces every assertion on the model with the given list
+  async writeAssertions(
+    storeId: string,
+    modelId: string,
+    assertions: Assertion[],
+    options: RequestOptions = {}
+  ): Promise<void> {
+    const request: WriteAssertionsRequest = { assertions };
+    await this.request<Record<string, never>>(`/stores/${storeId}/assertions/${modelId}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+      ...options,
+    });
   }
 
   // Tuple operations
@@ -229,7 +599,8 @@ class OpenFGAApiService {
     storeId: string,
     pageSize = 100,
     continuationToken?: string,
-    tupleKey?: Partial<TupleKey>
+    tupleKey?: Partial<TupleKey>,
+    options: RequestOptions = {}
   ): Promise<ReadTuplesResponse> {
     const body: Record<string, unknown> = {
       page_size: pageSize,
@@ -240,76 +611,416 @@ class OpenFGAApiService {
     if (tupleKey) {
       body.tuple_key = tupleKey;
     }
-    return this.request<ReadTuplesResponse>(`/stores/${storeId}/read`, {
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
+    const requestBody = JSON.stringify(body);
+    return this.cached(`${storeId}/read?${requestBody}`, CACHE_TTL_MS, options, () =>
+      this.request<ReadTuplesResponse>(`/stores/${storeId}/read`, {
+        method: 'POST',
+        body: requestBody,
+        retryable: true,
+        ...options,
+      })
+    );
   }
 
-  async writeTuples(storeId: string, request: WriteTuplesRequest): Promise<void> {
-    await this.request<Record<string, never>>(`/stores/${storeId}/write`, {
-      method: 'POST',
-      body: JSON.stringify(request),
-    });
+  async writeTuples(storeId: string, request: WriteTuplesRequest, options: RequestOptions = {}): Promise<void> {
+    try {
+      await this.request<Record<string, never>>(`/stores/${storeId}/write`, {
+        method: 'POST',
+        body: JSON.stringify(request),
+        ...options,
+      });
+    } finally {
+      // A failed or cancelled write may still have reached the server
+      this.cache.invalidate(`${storeId}/read?`);
+    }
   }
 
-  async addTuples(storeId: string, tuples: TupleKey[], modelId?: string): Promise<void> {
-    const request: WriteTuplesRequest = {
-      writes: {
-        tuple_keys: tuples,
-      },
-    };
-    if (modelId) {
-      request.authorization_model_id = modelId;
+  // Large edits are split into chunks like any bulk write; the first failing
+  // chunk's error is thrown and nothing after it is sent
+  async addTuples(
+    storeId: string,
+    tuples: TupleKey[],
+    modelId?: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.writeAllOrThrow(storeId, { writes: tuples, authorizationModelId: modelId }, options);
+  }
+
+  async deleteTuples(
+    storeId: string,
+    tuples: TupleKey[],
+    modelId?: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.writeAllOrThrow(storeId, { deletes: tuples, authorizationModelId: modelId }, options);
+  }
+
+  private async writeAllOrThrow(storeId: string, request: BulkWriteRequest, options: RequestOptions) {
+    const result = await this.bulkWrite(storeId, request, { ...options, stopOnError: true });
+    const failed = result.chunks.find((chunk) => !chunk.success);
+    if (failed?.error) {
+      throw failed.error;
     }
-    await this.writeTuples(storeId, request);
   }
 
-  async deleteTuples(storeId: string, tuples: TupleKey[], modelId?: string): Promise<void> {
-    const request: WriteTuplesRequest = {
-      deletes: {
-        tuple_keys: tuples,
-      },
+  // Writes and deletes any number of tuples in chunks the server accepts. Chunks
+  // run one after another and each is reported on its own, so a failing chunk
+  // does not hide what already went through. Writes go before deletes, and the
+  // deletes are skipped if any write failed, so a migration never ends with
+  // neither the old nor the new tuple. A tuple key cannot be both written and
+  // deleted in one bulk write: the write would fail as a duplicate and the
+  // delete would then remove the only copy.
+  async bulkWrite(
+    storeId: string,
+    request: BulkWriteRequest,
+    options: RequestOptions & {
+      chunkSize?: number;
+      stopOnError?: boolean;
+      onProgress?: (progress: BulkWriteProgress) => void;
+    } = {}
+  ): Promise<BulkWriteResult> {
+    const { chunkSize = WRITE_MAX_TUPLES, stopOnError = false, onProgress, ...requestOptions } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error(`Invalid chunk size ${chunkSize}: must be a whole number of at least 1`);
+    }
+    const identity = (key: TupleKey) => `${key.object}#${key.relation}@${key.user}`;
+    const written = new Set((request.writes || []).map(identity));
+    const conflict = (request.deletes || []).find((key) => written.has(identity(key)));
+    if (conflict) {
+      throw new Error(
+        `Tuple ${identity(conflict)} is both written and deleted. Delete the old tuple and write the new one in separate steps.`
+      );
+    }
+
+    const plan: Omit<BulkWriteChunkResult, 'success' | 'error'>[] = [];
+    const addChunks = (operation: 'write' | 'delete', tuples: TupleKey[] = []) => {
+      for (let i = 0; i < tuples.length; i += chunkSize) {
+        plan.push({ index: plan.length, operation, tuples: tuples.slice(i, i + chunkSize) });
+      }
     };
-    if (modelId) {
-      request.authorization_model_id = modelId;
+    addChunks('write', request.writes);
+    addChunks('delete', request.deletes);
+
+    const result: BulkWriteResult = { chunks: [], succeededTuples: 0, failedTuples: 0, skippedTuples: 0 };
+    for (const chunk of plan) {
+      const writeFailed = result.chunks.some((c) => c.operation === 'write' && !c.success);
+      if (chunk.operation === 'delete' && writeFailed) {
+        break;
+      }
+
+      const body: WriteTuplesRequest = chunk.operation === 'write'
+        ? { writes: { tuple_keys: chunk.tuples, ...(request.ignoreDuplicates && { on_duplicate: 'ignore' as const }) } }
+        : { deletes: { tuple_keys: chunk.tuples, ...(request.ignoreMissing && { on_missing: 'ignore' as const }) } };
+      if (request.authorizationModelId) {
+        body.authorization_model_id = request.authorizationModelId;
+      }
+
+      let chunkResult: BulkWriteChunkResult;
+      try {
+        await this.writeTuples(storeId, body, requestOptions);
+        chunkResult = { ...chunk, success: true };
+        result.succeededTuples += chunk.tuples.length;
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        chunkResult = { ...chunk, success: false, error: error instanceof Error ? error : new Error('Write failed') };
+        result.failedTuples += chunk.tuples.length;
+      }
+      result.chunks.push(chunkResult);
+      onProgress?.({
+        completedChunks: result.chunks.length,
+        totalChunks: plan.length,
+        succeededTuples: result.succeededTuples,
+        failedTuples: result.failedTuples,
+        lastChunk: chunkResult,
+      });
+
+      if (!chunkResult.success && stopOnError) {
+        break;
+      }
+    }
+    result.skippedTuples = plan
+      .slice(result.chunks.length)
+      .reduce((count, chunk) => count + chunk.tuples.length, 0);
+    return result;
+  }
+
+  // Change feed: the server returns changes oldest first and always hands back
+  // a continuation token, so an empty page is the only reliable end marker.
+  async readChanges(
+    storeId: string,
+    pageSize = 100,
+    continuationToken?: string,
+    type?: string,
+    startTime?: string,
+    options: RequestOptions = {}
+  ): Promise<ReadChangesResponse> {
+    const params = new URLSearchParams();
+    params.set('page_size', pageSize.toString());
+    if (type) {
+      params.set('type', type);
     }
-    await this.writeTuples(storeId, request);
+    if (continuationToken) {
+      params.set('continuation_token', continuationToken);
+    } else if (startTime) {
+      params.set('start_time', startTime);
+    }
+    return this.request<ReadChangesResponse>(
+      `/stores/${storeId}/changes?${params.toString()}`,
+      options
+    );
   }
 
   // Query operations
-  async check(storeId: string, request: CheckRequest): Promise<CheckResponse> {
+  async check(storeId: string, request: CheckRequest, options: RequestOptions = {}): Promise<CheckResponse> {
     return this.request<CheckResponse>(`/stores/${storeId}/check`, {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: JSON.stringify(this.withConsistency(request)),
+      retryable: true,
+      ...options,
     });
   }
 
-  async expand(storeId: string, request: ExpandRequest): Promise<ExpandResponse> {
+  // Runs many checks at once via /batch-check, split into server-sized chunks.
+  // Servers without the endpoint (< v1.8.0) get one /check call per item instead.
+  async batchCheck(
+    storeId: string,
+    request: BatchCheckRequest,
+    options: RequestOptions = {}
+  ): Promise<BatchCheckResponse> {
+    if (!this.batchCheckUnsupported) {
+      try {
+        const chunks: BatchCheckRequest[] = [];
+        for (let i = 0; i < request.checks.length; i += BATCH_CHECK_MAX_ITEMS) {
+          chunks.push({ ...request, checks: request.checks.slice(i, i + BATCH_CHECK_MAX_ITEMS) });
+        }
+        const responses = await Promise.all(
+          chunks.map((chunk) =>
+            this.request<BatchCheckResponse>(`/stores/${storeId}/batch-check`, {
+              method: 'POST',
+              body: JSON.stringify(this.withConsistency(chunk)),
+              retryable: true,
+              ...options,
+            })
+          )
+        );
+        return {
+          result: Object.assign({}, ...responses.map((r) => r.result)),
+        };
+      } catch (error) {
+        if (!(error instanceof OpenFGAApiError) || !isMissingEndpoint(error)) {
+          throw error;
+        }
+        this.batchCheckUnsupported = true;
+      }
+    }
+
+    const entries = await Promise.all(
+      request.checks.map(async (item): Promise<[string, BatchCheckSingleResult]> => {
+        try {
+          const response = await this.check(storeId, {
+            tuple_key: item.tuple_key,
+            contextual_tuples: item.contextual_tuples,
+            context: item.context,
+            authorization_model_id: request.authorization_model_id,
+            consistency: request.consistency,
+          }, options);
+          return [item.correlation_id, { allowed: response.allowed }];
+        } catch (error) {
+          return [
+            item.correlation_id,
+            { error: { message: error instanceof Error ? error.message : 'Check failed' } },
+          ];
+        }
+      })
+    );
+    return { result: Object.fromEntries(entries) };
+  }
+
+  async expand(storeId: string, request: ExpandRequest, options: RequestOptions = {}): Promise<ExpandResponse> {
     return this.request<ExpandResponse>(`/stores/${storeId}/expand`, {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: JSON.stringify(this.withConsistency(request)),
+      retryable: true,
+      ...options,
     });
   }
 
-  async listObjects(storeId: string, request: ListObjectsRequest): Promise<ListObjectsResponse> {
+  async listObjects(storeId: string, request: ListObjectsRequest, options: RequestOptions = {}): Promise<ListObjectsResponse> {
     return this.request<ListObjectsResponse>(`/stores/${storeId}/list-objects`, {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: JSON.stringify(this.withConsistency(request)),
+      retryable: true,
+      ...options,
     });
   }
 
-  async listUsers(storeId: string, request: ListUsersRequest): Promise<ListUsersResponse> {
+  // Streams ListObjects results as NDJSON so large result sets are not cut off at
+  // the server's list limit. onObjects is called with each batch as it arrives.
+  // Servers without the endpoint get a single regular /list-objects call instead.
+  async streamedListObjects(
+    storeId: string,
+    request: ListObjectsRequest,
+    onObjects: (objects: string[]) => void,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    if (this.streamedListObjectsUnsupported) {
+      const response = await this.listObjects(storeId, request, options);
+      onObjects(response.objects);
+      return;
+    }
+
+    const endpoint = `/stores/${storeId}/streamed-list-objects`;
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      method: 'POST',
+      url: `${this.config.serverUrl}${endpoint}`,
+      endpoint,
+      requestHeaders: (await this.getHeaders()) as Record<string, string>,
+      secretHeaders: this.secretHeaderNames(),
+      requestBody: JSON.stringify(this.withConsistency(request)),
+    };
+    const startedAt = performance.now();
+    const elapsed = () => Math.round(performance.now() - startedAt);
+    // Aborting must also stop the body read, so the signal is disposed of on
+    // each way out rather than once the response headers are in
+    const { signal, dispose } = anySignal([options.signal, this.scopeController.signal]);
+
+    let response: Response;
+    try {
+      response = await this.transport.fetch(logEntry.url, {
+        method: 'POST',
+        headers: logEntry.requestHeaders,
+        body: logEntry.requestBody,
+        signal,
+      });
+    } catch (error) {
+      dispose();
+      networkLog.record({ ...logEntry, error: error instanceof Error ? error.message : 'Network error', durationMs: elapsed() });
+      throw error;
+    }
+
+    if (!response.ok) {
+      dispose();
+      const responseBody = await response.text();
+      networkLog.record({ ...logEntry, status: response.status, responseBody, durationMs: elapsed() });
+      const error = OpenFGAApiError.fromResponse(response, responseBody);
+      if (isMissingEndpoint(error)) {
+        this.streamedListObjectsUnsupported = true;
+        return this.streamedListObjects(storeId, request, onObjects, options);
+      }
+      throw error;
+    }
+    if (!response.body) {
+      dispose();
+      throw new Error('Streaming responses are not supported in this browser');
+    }
+
+    // The stream body is not kept; the log only notes how much came through
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let received = 0;
+    const emit = (objects: string[]) => {
+      if (objects.length > 0) {
+        received += objects.length;
+        onObjects(objects);
+      }
+    };
+    let finished = false;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        emit(this.parseStreamedObjects(lines));
+      }
+      emit(this.parseStreamedObjects([buffer + decoder.decode()]));
+      finished = true;
+    } finally {
+      // Stopped early (bad chunk, server error, callback threw): close the body
+      if (!finished) {
+        await reader.cancel().catch(() => undefined);
+      }
+      reader.releaseLock();
+      dispose();
+      networkLog.record({
+        ...logEntry,
+        status: response.status,
+        responseBody: `(stream) ${received} objects received`,
+        durationMs: elapsed(),
+      });
+    }
+  }
+
+  private parseStreamedObjects(lines: string[]): string[] {
+    const objects: string[] = [];
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const chunk: StreamedListObjectsResponse = JSON.parse(line);
+      if (chunk.error) {
+        throw new Error(chunk.error.message || 'Streamed list objects failed');
+      }
+      if (chunk.result) {
+        objects.push(chunk.result.object);
+      }
+    }
+    return objects;
+  }
+
+  async listUsers(storeId: string, request: ListUsersRequest, options: RequestOptions = {}): Promise<ListUsersResponse> {
     return this.request<ListUsersResponse>(`/stores/${storeId}/list-users`, {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: JSON.stringify(this.withConsistency(request)),
+      retryable: true,
+      ...options,
     });
   }
 
-  // Health check
-  async healthCheck(): Promise<boolean> {
+  // Whether the server routes an endpoint. It gets an empty request for a
+  // made-up store: servers that have the endpoint reject the input or the
+  // store (e.g. validation_error, store_id_not_found), servers that do not
+  // answer as isMissingEndpoint describes. Undefined when the server could not
+  // be asked.
+  private async supportsEndpoint(endpoint: string, signal?: AbortSignal): Promise<boolean | undefined> {
+    try {
+      const response = await this.transport.fetch(`${this.config.serverUrl}/stores/${PROBE_STORE_ID}/${endpoint}`, {
+        method: 'POST',
+        headers: await this.getHeaders(),
+        body: '{}',
+        signal,
+      });
+      if (response.ok) return true;
+      return !isMissingEndpoint(OpenFGAApiError.fromResponse(response, await response.text()));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return undefined;
+    }
+  }
+
+  // Probe the optional endpoints so the UI can hide what the server lacks.
+  // Known-missing endpoints also skip the first failing call in the fallbacks.
+  async probeCapabilities(options: RequestOptions = {}): Promise<ServerCapabilities> {
+    const [listUsers, batchCheck, streamedListObjects] = await Promise.all([
+      this.supportsEndpoint('list-users', options.signal),
+      this.supportsEndpoint('batch-check', options.signal),
+      this.supportsEndpoint('streamed-list-objects', options.signal),
+    ]);
+    this.batchCheckUnsupported = batchCheck === false;
+    this.streamedListObjectsUnsupported = streamedListObjects === false;
+    return { listUsers, batchCheck, streamedListObjects };
+  }
+
+  // Sends the same headers as API calls, since a gateway or authenticating
+  // proxy in front of the server may guard /healthz too. If no token can be
+  // had right now, the custom headers alone still tell whether the server is up.
+  async healthCheck(options: RequestOptions = {}): Promise<boolean> {
     try {
-      const response = await fetch(`${this.config.serverUrl}/healthz`);
+      const headers = await this.getHeaders().catch(() => this.customHeaders());
+      const response = await this.transport.fetch(`${this.config.serverUrl}/healthz`, { headers, signal: options.signal });
       return response.ok;
     } catch {
       return false;
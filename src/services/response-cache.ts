@@ -0,0 +1,53 @@
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Keyed store of parsed read responses. Entries expire after their TTL and the
+// least recently used one is dropped once maxEntries is reached.
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  // Bumped on every invalidation, so a read that started before a write can
+  // tell its response may already be stale
+  private generation = 0;
+
+  constructor(private maxEntries = 500) {}
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    // Re-insert so Map order tracks recency
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  set(key: string, value: unknown, ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  // Drop every entry whose key starts with the prefix
+  invalidate(prefix: string) {
+    this.generation++;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear() {
+    this.generation++;
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,20 @@
+// How the API service reaches a server. Requests and responses use the Fetch
+// API types, so retries, logging and streaming work the same for every backend.
+export interface Transport {
+  fetch(url: string, init: RequestInit): Promise<Response>;
+}
+
+// Server URL that selects the in-memory backend instead of HTTP
+export const MEMORY_SERVER_URL = 'memory://demo';
+
+export function isMemoryServerUrl(serverUrl: string): boolean {
+  return serverUrl.startsWith('memory://');
+}
+
+export class HttpTransport implements Transport {
+  fetch(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, init);
+  }
+}
+
+export const httpTransport = new HttpTransport();
@@ -0,0 +1,121 @@
+import type { ConnectionConfig } from '../types/openfga';
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 310000;
+
+// Credentials taken out of a connection before it is written to localStorage
+export interface ConnectionSecrets {
+  apiToken?: string;
+  clientSecret?: string;
+  privateKeyPem?: string;
+  cachedOidcToken?: string;
+  cachedOidcRefreshToken?: string;
+  // Values of custom headers marked secret, by lower-cased header name
+  headerValues?: Record<string, string>;
+}
+
+export interface VaultContents {
+  connection: ConnectionSecrets;
+  profiles: Record<string, ConnectionSecrets>; // By profile id
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+export function createVaultSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+// AES-GCM key derived from the passphrase; not extractable, so it only
+// lives in memory for this session
+export async function deriveVaultKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptVault(key: CryptoKey, contents: VaultContents): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(contents)));
+  return JSON.stringify({ iv: toBase64(iv), data: toBase64(new Uint8Array(data)) });
+}
+
+export async function decryptVault(key: CryptoKey, payload: string): Promise<VaultContents> {
+  const { iv, data } = JSON.parse(payload);
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+    return JSON.parse(new TextDecoder().decode(plain));
+  } catch {
+    // GCM authentication fails on a wrong key
+    throw new Error('Wrong passphrase');
+  }
+}
+
+// Header names are case-insensitive
+const headerKey = (name: string) => name.trim().toLowerCase();
+
+export function pickSecrets(config: ConnectionConfig): ConnectionSecrets {
+  const headerValues: Record<string, string> = {};
+  for (const header of config.customHeaders || []) {
+    if (header.secret && header.value) {
+      headerValues[headerKey(header.name)] = header.value;
+    }
+  }
+  return {
+    apiToken: config.apiToken || undefined,
+    clientSecret: config.oidcConfig?.clientSecret || undefined,
+    privateKeyPem: config.oidcConfig?.privateKeyPem || undefined,
+    cachedOidcToken: config.cachedOidcToken,
+    cachedOidcRefreshToken: config.cachedOidcRefreshToken,
+    headerValues,
+  };
+}
+
+// The connection without any credentials, safe to store in plaintext
+export function stripSecrets(config: ConnectionConfig): ConnectionConfig {
+  return {
+    ...config,
+    apiToken: undefined,
+    oidcConfig: config.oidcConfig && { ...config.oidcConfig, clientSecret: '', privateKeyPem: undefined },
+    cachedOidcToken: undefined,
+    cachedOidcRefreshToken: undefined,
+    customHeaders: config.customHeaders?.map((h) => (h.secret ? { ...h, value: '' } : h)),
+  };
+}
+
+// Put the vault's credentials back into a stripped connection. A value the
+// connection already has was entered (or fetched) while the vault was locked
+// and is newer than the vault's copy, so it wins.
+export function restoreSecrets(config: ConnectionConfig, secrets: ConnectionSecrets): ConnectionConfig {
+  const headerValues = secrets.headerValues || {};
+  return {
+    ...config,
+    apiToken: config.apiToken || secrets.apiToken,
+    oidcConfig: config.oidcConfig && {
+      ...config.oidcConfig,
+      clientSecret: config.oidcConfig.clientSecret || secrets.clientSecret || '',
+      privateKeyPem: config.oidcConfig.privateKeyPem || secrets.privateKeyPem,
+    },
+    cachedOidcToken: config.cachedOidcToken || secrets.cachedOidcToken,
+    cachedOidcRefreshToken: config.cachedOidcRefreshToken || secrets.cachedOidcRefreshToken,
+    customHeaders: config.customHeaders?.map((h) => {
+      if (!h.secret || h.value) return h;
+      const value = headerValues[headerKey(h.name)];
+      return value !== undefined ? { ...h, value } : h;
+    }),
+  };
+}
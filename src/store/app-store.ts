@@ -1,12 +1,19 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { AuthorizationModel, ConnectionConfig, Store, Tuple } from '../types/openfga';
+import openfgaApi from '../services/openfga-api';
+import { createVaultSalt, decryptVault, deriveVaultKey, encryptVault, pickSecrets, restoreSecrets, stripSecrets } from '../services/vault';
+import type { AuthorizationModel, ConnectionConfig, ConnectionProfile, ConsistencyPreference, SecretStorageMode, ServerCapabilities, Store, Tuple } from '../types/openfga';
 
 interface AppState {
   // Connection
   connection: ConnectionConfig;
   isConnected: boolean;
   connectionError: string | null;
+  capabilities: ServerCapabilities;
+  
+  // Connection profiles
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
   
   // Stores
   stores: Store[];
@@ -18,6 +25,7 @@ interface AppState {
   authorizationModels: AuthorizationModel[];
   selectedModel: AuthorizationModel | null;
   modelsLoading: boolean;
+  modelsContinuationToken: string | null;
   
   // Tuples
   tuples: Tuple[];
@@ -28,20 +36,46 @@ interface AppState {
   activeTab: 'model' | 'tuples' | 'check' | 'expand' | 'list-objects' | 'list-users';
   darkMode: boolean;
   
+  // Settings
+  defaultConsistency: ConsistencyPreference;
+  maxRetries: number;
+  // Send every read to the server instead of the response cache
+  bypassCache: boolean;
+  
+  // Credential storage
+  secretStorage: SecretStorageMode;
+  vaultSalt: string | null;
+  encryptedSecrets: string | null;
+  vaultKey: CryptoKey | null; // Set once the vault is unlocked, never persisted
+  
   // Actions
+  // Point the API client at a server and load its stores; false on failure
+  connect: (config: ConnectionConfig) => Promise<boolean>;
   setConnection: (config: ConnectionConfig) => void;
   setIsConnected: (connected: boolean) => void;
   setConnectionError: (error: string | null) => void;
   
+  saveProfile: (profile: ConnectionProfile) => void;
+  deleteProfile: (id: string) => void;
+  // Make a profile active and load its connection into the form
+  selectProfile: (id: string | null) => void;
+  // Make a profile active and connect to it
+  switchProfile: (id: string) => Promise<boolean>;
+  // Model to select for a store: the profile's last one, else its default
+  preferredModelId: (storeId: string) => string | undefined;
+  
   setStores: (stores: Store[]) => void;
   appendStores: (stores: Store[]) => void;
   setSelectedStore: (store: Store | null) => void;
   setStoresLoading: (loading: boolean) => void;
   setStoresContinuationToken: (token: string | null) => void;
+  // Reload the store list and re-select the current store, reloading its view
+  refreshStores: () => Promise<void>;
   
   setAuthorizationModels: (models: AuthorizationModel[]) => void;
   setSelectedModel: (model: AuthorizationModel | null) => void;
   setModelsLoading: (loading: boolean) => void;
+  setModelsContinuationToken: (token: string | null) => void;
   
   setTuples: (tuples: Tuple[]) => void;
   appendTuples: (tuples: Tuple[]) => void;
@@ -51,6 +85,18 @@ interface AppState {
   setActiveTab: (tab: AppState['activeTab']) => void;
   toggleDarkMode: () => void;
   
+  setDefaultConsistency: (consistency: ConsistencyPreference) => void;
+  setMaxRetries: (maxRetries: number) => void;
+  setBypassCache: (bypass: boolean) => void;
+  
+  // Switching to 'vault' needs the passphrase to encrypt with
+  setSecretStorage: (mode: SecretStorageMode, passphrase?: string) => Promise<void>;
+  // Decrypt the saved credentials back into the connection and profiles
+  unlockVault: (passphrase: string) => Promise<void>;
+  // Drop encrypted credentials whose passphrase is lost
+  forgetVault: () => void;
+  saveVault: () => Promise<void>;
+  
   reset: () => void;
 }
 
@@ -65,6 +111,10 @@ const initialState = {
   },
   isConnected: false,
   connectionError: null,
+  capabilities: {} as ServerCapabilities,
+  
+  profiles: [] as ConnectionProfile[],
+  activeProfileId: null as string | null,
   
   stores: [],
   selectedStore: null,
@@ -74,6 +124,7 @@ const initialState = {
   authorizationModels: [],
   selectedModel: null,
   modelsLoading: false,
+  modelsContinuationToken: null,
   
   tuples: [],
   tuplesLoading: false,
@@ -81,34 +132,178 @@ const initialState = {
   
   activeTab: 'model' as const,
   darkMode: false,
+  
+  defaultConsistency: 'UNSPECIFIED' as ConsistencyPreference,
+  maxRetries: 3,
+  bypassCache: false,
+  
+  secretStorage: 'plaintext' as SecretStorageMode,
+  vaultSalt: null as string | null,
+  encryptedSecrets: null as string | null,
+  vaultKey: null as CryptoKey | null,
 };
 
+// Guards against an older, slower encryption overwriting a newer one
+let vaultSaveSeq = 0;
+
+function activeProfileOf(state: AppState): ConnectionProfile | undefined {
+  return state.profiles.find((p) => p.id === state.activeProfileId);
+}
+
+// Profiles with changes applied to the active one
+function updateActiveProfile(state: AppState, changes: Partial<ConnectionProfile>): ConnectionProfile[] {
+  return state.profiles.map((p) => (p.id === state.activeProfileId ? { ...p, ...changes } : p));
+}
+
 export const useAppStore = create<AppState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       ...initialState,
       
-      setConnection: (config) => set({ connection: config }),
+      connect: async (config) => {
+        set({ connectionError: null, storesLoading: true, capabilities: {} });
+        openfgaApi.setConfig(config);
+        try {
+          const response = await openfgaApi.listStores();
+          set((state) => ({
+            connection: config,
+            profiles: updateActiveProfile(state, { connection: config }),
+            isConnected: true,
+            stores: response.stores,
+            storesContinuationToken: response.continuation_token || null,
+          }));
+          const profile = activeProfileOf(get());
+          const preferredStoreId = profile?.lastStoreId || profile?.defaultStoreId;
+          const store = response.stores.find((s) => s.id === preferredStoreId) || response.stores[0];
+          if (store) {
+            get().setSelectedStore(store);
+          }
+          // Find out in the background which optional endpoints exist
+          openfgaApi.probeCapabilities()
+            .then((capabilities) => {
+              if (get().connection === config) {
+                set({ capabilities });
+              }
+            })
+            .catch((error) => console.error('Failed to probe server capabilities:', error));
+          return true;
+        } catch (error) {
+          set({
+            connectionError: error instanceof Error ? error.message : 'Failed to connect to OpenFGA server',
+            isConnected: false,
+          });
+          return false;
+        } finally {
+          set({ storesLoading: false });
+        }
+      },
+      
+      setConnection: (config) => set((state) => ({
+        connection: config,
+        profiles: updateActiveProfile(state, { connection: config }),
+      })),
       setIsConnected: (connected) => set({ isConnected: connected }),
       setConnectionError: (error) => set({ connectionError: error }),
       
+      saveProfile: (profile) => set((state) => ({
+        profiles: state.profiles.some((p) => p.id === profile.id)
+          ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+          : [...state.profiles, profile],
+      })),
+      deleteProfile: (id) => set((state) => ({
+        profiles: state.profiles.filter((p) => p.id !== id),
+        activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+      })),
+      selectProfile: (id) => {
+        const profile = get().profiles.find((p) => p.id === id);
+        set(profile ? { activeProfileId: id, connection: profile.connection } : { activeProfileId: null });
+      },
+      switchProfile: async (id) => {
+        const profile = get().profiles.find((p) => p.id === id);
+        if (!profile) return false;
+        // Clear the old server's data directly so its selection is not
+        // written into the profile being switched to
+        set({
+          activeProfileId: id,
+          connection: profile.connection,
+          isConnected: false,
+          stores: [],
+          storesContinuationToken: null,
+          selectedStore: null,
+          authorizationModels: [],
+          modelsContinuationToken: null,
+          selectedModel: null,
+          tuples: [],
+          tuplesContinuationToken: null,
+          capabilities: {},
+        });
+        return get().connect(profile.connection);
+      },
+      preferredModelId: (storeId) => {
+        const profile = activeProfileOf(get());
+        if (!profile) return undefined;
+        if (profile.lastStoreId === storeId && profile.lastModelId) return profile.lastModelId;
+        return profile.defaultStoreId === storeId ? profile.defaultModelId : undefined;
+      },
+      
       setStores: (stores) => set({ stores }),
       appendStores: (newStores) => set((state) => ({
         stores: [...state.stores, ...newStores],
       })),
-      setSelectedStore: (store) => set({ 
-        selectedStore: store,
-        authorizationModels: [],
-        selectedModel: null,
-        tuples: [],
-        tuplesContinuationToken: null,
-      }),
+      setSelectedStore: (store) => {
+        // Drop reads still running for the previous store
+        if (get().selectedStore?.id !== store?.id) {
+          openfgaApi.abortPending();
+        }
+        set((state) => ({ 
+          selectedStore: store,
+          authorizationModels: [],
+          modelsContinuationToken: null,
+          selectedModel: null,
+          tuples: [],
+          tuplesContinuationToken: null,
+          // Remember the selection for the active profile
+          profiles: store && store.id !== activeProfileOf(state)?.lastStoreId
+            ? updateActiveProfile(state, { lastStoreId: store.id, lastModelId: undefined })
+            : state.profiles,
+        }));
+      },
       setStoresLoading: (loading) => set({ storesLoading: loading }),
       setStoresContinuationToken: (token) => set({ storesContinuationToken: token }),
+      refreshStores: async () => {
+        // The views reload next, and the data may have changed meanwhile
+        openfgaApi.clearCache();
+        set({ storesLoading: true });
+        try {
+          const response = await openfgaApi.listStores();
+          set({ stores: response.stores, storesContinuationToken: response.continuation_token || null });
+          // A new object for the same store makes the open views load again
+          // (the store may be on a later page, so keep it if not found)
+          const current = get().selectedStore;
+          const store = response.stores.find((s) => s.id === current?.id)
+            || (current ? { ...current } : response.stores[0] || null);
+          get().setSelectedStore(store);
+        } catch (error) {
+          console.error('Failed to refresh stores:', error);
+        } finally {
+          set({ storesLoading: false });
+        }
+      },
       
       setAuthorizationModels: (models) => set({ authorizationModels: models }),
-      setSelectedModel: (model) => set({ selectedModel: model }),
+      setSelectedModel: (model) => {
+        // Picking the first model for a fresh store is not a switch
+        const current = get().selectedModel;
+        if (current && current.id !== model?.id) {
+          openfgaApi.abortPending();
+        }
+        set((state) => ({
+          selectedModel: model,
+          profiles: model ? updateActiveProfile(state, { lastModelId: model.id }) : state.profiles,
+        }));
+      },
       setModelsLoading: (loading) => set({ modelsLoading: loading }),
+      setModelsContinuationToken: (token) => set({ modelsContinuationToken: token }),
       
       setTuples: (tuples) => set({ tuples }),
       appendTuples: (newTuples) => set((state) => ({ 
@@ -120,14 +315,79 @@ export const useAppStore = create<AppState>()(
       setActiveTab: (tab) => set({ activeTab: tab }),
       toggleDarkMode: () => set((state) => ({ darkMode: !state.darkMode })),
       
+      setDefaultConsistency: (consistency) => set({ defaultConsistency: consistency }),
+      setMaxRetries: (maxRetries) => set({ maxRetries }),
+      setBypassCache: (bypass) => set({ bypassCache: bypass }),
+      
+      setSecretStorage: async (mode, passphrase) => {
+        if (mode === 'vault') {
+          if (!passphrase) {
+            throw new Error('A passphrase is required to encrypt credentials');
+          }
+          const salt = createVaultSalt();
+          const key = await deriveVaultKey(passphrase, salt);
+          set({ secretStorage: 'vault', vaultSalt: salt, vaultKey: key });
+        } else {
+          set({ secretStorage: mode, vaultSalt: null, vaultKey: null, encryptedSecrets: null });
+        }
+      },
+      unlockVault: async (passphrase) => {
+        const { vaultSalt, encryptedSecrets } = get();
+        if (!vaultSalt || !encryptedSecrets) return;
+        const key = await deriveVaultKey(passphrase, vaultSalt);
+        const contents = await decryptVault(key, encryptedSecrets);
+        set((state) => ({
+          vaultKey: key,
+          connection: restoreSecrets(state.connection, contents.connection),
+          profiles: state.profiles.map((p) => ({
+            ...p,
+            connection: restoreSecrets(p.connection, contents.profiles[p.id] || {}),
+          })),
+        }));
+      },
+      forgetVault: () => set({ secretStorage: 'memory', vaultSalt: null, vaultKey: null, encryptedSecrets: null }),
+      saveVault: async () => {
+        const { vaultKey, connection, profiles } = get();
+        if (!vaultKey) return;
+        const seq = ++vaultSaveSeq;
+        const encrypted = await encryptVault(vaultKey, {
+          connection: pickSecrets(connection),
+          profiles: Object.fromEntries(profiles.map((p) => [p.id, pickSecrets(p.connection)])),
+        });
+        if (seq === vaultSaveSeq) {
+          set({ encryptedSecrets: encrypted });
+        }
+      },
+      
       reset: () => set(initialState),
     }),
     {
       name: 'openfga-ui-storage',
-      partialize: (state) => ({
-        connection: state.connection,
-        darkMode: state.darkMode,
-      }),
+      partialize: (state) => {
+        // Outside plaintext mode credentials never reach localStorage as-is
+        const keepSecrets = state.secretStorage === 'plaintext';
+        return {
+          connection: keepSecrets ? state.connection : stripSecrets(state.connection),
+          profiles: keepSecrets
+            ? state.profiles
+            : state.profiles.map((p) => ({ ...p, connection: stripSecrets(p.connection) })),
+          activeProfileId: state.activeProfileId,
+          darkMode: state.darkMode,
+          defaultConsistency: state.defaultConsistency,
+          maxRetries: state.maxRetries,
+          bypassCache: state.bypassCache,
+          secretStorage: state.secretStorage,
+          vaultSalt: state.vaultSalt,
+          encryptedSecrets: state.encryptedSecrets,
+        };
+      },
     }
   )
 );
+
+// Re-encrypt the vault whenever credentials may have changed
+useAppStore.subscribe((state, prev) => {
+  if (state.vaultKey && (state.vaultKey !== prev.vaultKey || state.connection !== prev.connection || state.profiles !== prev.profiles)) {
+    state.saveVault();
+  }
+});
@@ -9,12 +9,15 @@ interface SavedQueriesState {
   // Actions
   getSavedQueries: (storeId: string) => SavedQuery[];
   addSavedQuery: (storeId: string, query: Omit<SavedQuery, 'id' | 'createdAt'>) => void;
+  addSavedQueries: (storeId: string, queries: Omit<SavedQuery, 'id' | 'createdAt'>[]) => void;
   updateSavedQuery: (storeId: string, queryId: string, updates: Partial<SavedQuery>) => void;
   deleteSavedQuery: (storeId: string, queryId: string) => void;
   updateLastResult: (storeId: string, queryId: string, result: SavedQuery['lastResult']) => void;
   reorderQueries: (storeId: string, queries: SavedQuery[]) => void;
   importQueries: (storeId: string, queries: SavedQuery[], mode: 'replace' | 'merge') => void;
   clearAllQueries: (storeId: string) => void;
+  // Forget a deleted store's queries entirely
+  removeStoreQueries: (storeId: string) => void;
 }
 
 export const useSavedQueriesStore = create<SavedQueriesState>()(
@@ -43,6 +46,24 @@ export const useSavedQueriesStore = create<SavedQueriesState>()(
         });
       },
       
+      addSavedQueries: (storeId: string, queries: Omit<SavedQuery, 'id' | 'createdAt'>[]) => {
+        set((state) => {
+          const existingQueries = state.queriesByStore[storeId] || [];
+          const createdAt = new Date().toISOString();
+          const newQueries: SavedQuery[] = queries.map((query) => ({
+            ...query,
+            id: `query_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            createdAt,
+          }));
+          return {
+            queriesByStore: {
+              ...state.queriesByStore,
+              [storeId]: [...existingQueries, ...newQueries],
+            },
+          };
+        });
+      },
+      
       updateSavedQuery: (storeId: string, queryId: string, updates: Partial<SavedQuery>) => {
         set((state) => {
           const existingQueries = state.queriesByStore[storeId] || [];
@@ -134,6 +155,13 @@ export const useSavedQueriesStore = create<SavedQueriesState>()(
           },
         }));
       },
+
+      removeStoreQueries: (storeId: string) => {
+        set((state) => {
+          const { [storeId]: _removed, ...queriesByStore } = state.queriesByStore;
+          return { queriesByStore };
+        });
+      },
     }),
     {
       name: 'openfga-saved-queries',
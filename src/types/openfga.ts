@@ -114,13 +114,32 @@ export interface ReadTuplesResponse {
 export interface WriteTuplesRequest {
   writes?: {
     tuple_keys: TupleKey[];
+    on_duplicate?: 'error' | 'ignore';
   };
   deletes?: {
     tuple_keys: TupleKey[];
+    on_missing?: 'error' | 'ignore';
   };
   authorization_model_id?: string;
 }
 
+export type TupleOperation = 'TUPLE_OPERATION_WRITE' | 'TUPLE_OPERATION_DELETE';
+
+export interface TupleChange {
+  tuple_key: TupleKey;
+  operation: TupleOperation;
+  timestamp: string;
+}
+
+export interface ReadChangesResponse {
+  changes: TupleChange[];
+  continuation_token?: string;
+}
+
+// Read consistency for query APIs. UNSPECIFIED leaves the choice to the server
+// (currently the same as MINIMIZE_LATENCY).
+export type ConsistencyPreference = 'UNSPECIFIED' | 'MINIMIZE_LATENCY' | 'HIGHER_CONSISTENCY';
+
 export interface CheckRequest {
   tuple_key: TupleKey;
   contextual_tuples?: {
@@ -128,6 +147,7 @@ export interface CheckRequest {
   };
   authorization_model_id?: string;
   context?: Record<string, unknown>;
+  consistency?: ConsistencyPreference;
 }
 
 export interface CheckResponse {
@@ -135,12 +155,42 @@ export interface CheckResponse {
   resolution?: string;
 }
 
+export interface BatchCheckItem {
+  tuple_key: TupleKey;
+  contextual_tuples?: {
+    tuple_keys: TupleKey[];
+  };
+  context?: Record<string, unknown>;
+  correlation_id: string;
+}
+
+export interface BatchCheckRequest {
+  checks: BatchCheckItem[];
+  authorization_model_id?: string;
+  consistency?: ConsistencyPreference;
+}
+
+export interface BatchCheckSingleResult {
+  allowed?: boolean;
+  error?: {
+    input_error?: string;
+    internal_error?: string;
+    message?: string;
+  };
+}
+
+export interface BatchCheckResponse {
+  // Keyed by the correlation_id of each check
+  result: Record<string, BatchCheckSingleResult>;
+}
+
 export interface ExpandRequest {
   tuple_key: {
     relation: string;
     object: string;
   };
   authorization_model_id?: string;
+  consistency?: ConsistencyPreference;
 }
 
 export interface ExpandResponse {
@@ -196,12 +246,21 @@ export interface ListObjectsRequest {
     tuple_keys: TupleKey[];
   };
   context?: Record<string, unknown>;
+  consistency?: ConsistencyPreference;
 }
 
 export interface ListObjectsResponse {
   objects: string[];
 }
 
+// One line of the /streamed-list-objects NDJSON stream
+export interface StreamedListObjectsResponse {
+  result?: {
+    object: string;
+  };
+  error?: Partial<OpenFGAError>;
+}
+
 export interface ListUsersRequest {
   authorization_model_id?: string;
   object: {
@@ -214,6 +273,7 @@ export interface ListUsersRequest {
     tuple_keys: TupleKey[];
   };
   context?: Record<string, unknown>;
+  consistency?: ConsistencyPreference;
 }
 
 export interface UserTypeFilter {
@@ -240,6 +300,26 @@ export interface User {
   };
 }
 
+export interface Assertion {
+  tuple_key: {
+    user: string;
+    relation: string;
+    object: string;
+  };
+  expectation: boolean;
+  contextual_tuples?: TupleKey[];
+  context?: Record<string, unknown>;
+}
+
+export interface ReadAssertionsResponse {
+  authorization_model_id: string;
+  assertions?: Assertion[];
+}
+
+export interface WriteAssertionsRequest {
+  assertions: Assertion[];
+}
+
 export interface OpenFGAError {
   code: string;
   message: string;
@@ -248,17 +328,59 @@ export interface OpenFGAError {
 // Connection configuration
 export type AuthMethod = 'none' | 'preshared' | 'oidc';
 
+// client_credentials for service accounts, authorization_code (with PKCE)
+// for signing in as a user in the browser
+export type OIDCGrantType = 'client_credentials' | 'authorization_code';
+
+// How the client proves its identity to the token endpoint
+export type OIDCClientAuthMethod = 'client_secret' | 'private_key_jwt';
+
 export interface OIDCConfig {
+  grantType?: OIDCGrantType; // Defaults to client_credentials
   clientId: string;
-  clientSecret: string;
+  clientAuthMethod?: OIDCClientAuthMethod; // Defaults to client_secret
+  clientSecret: string; // May be empty for public clients using PKCE
+  // private_key_jwt: PKCS#8 PEM key that signs the client assertion
+  privateKeyPem?: string;
+  signingAlgorithm?: 'RS256' | 'ES256';
+  keyId?: string;
   tokenEndpoint: string;
+  authorizationEndpoint?: string;
+  // Issuer URL used to discover the endpoints
+  issuer?: string;
   audience?: string;
   scopes?: string;
 }
 
+// Subset of the provider's /.well-known/openid-configuration
+export interface OIDCDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint?: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+// Tokens returned by the provider's token endpoint
+export interface OIDCTokens {
+  accessToken: string;
+  expiresAt: number;
+  refreshToken?: string;
+}
+
+// Extra header sent with every request, e.g. for an API gateway
+export interface CustomHeader {
+  name: string;
+  value: string;
+  // Masked in the UI and redacted in the network inspector
+  secret?: boolean;
+}
+
 export interface ConnectionConfig {
   serverUrl: string;
   authMethod: AuthMethod;
+  customHeaders?: CustomHeader[];
   // Pre-shared key auth
   apiToken?: string;
   // OIDC auth
@@ -266,11 +388,121 @@ export interface ConnectionConfig {
   // Cached OIDC token
   cachedOidcToken?: string;
   cachedOidcTokenExpiry?: number;
+  cachedOidcRefreshToken?: string;
   // Legacy
   storeId?: string;
   authorizationModelId?: string;
 }
 
+// Where credentials are kept between sessions: plaintext in localStorage,
+// encrypted with a passphrase, or only in memory
+export type SecretStorageMode = 'plaintext' | 'vault' | 'memory';
+
+// Named connection the user can switch to from the header
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  color: string; // CSS color of the profile's label
+  connection: ConnectionConfig;
+  // Selected on connect when the profile has no remembered selection
+  defaultStoreId?: string;
+  defaultModelId?: string;
+  // Last selection, restored when switching back to the profile
+  lastStoreId?: string;
+  lastModelId?: string;
+}
+
+// Optional endpoints found by probing the server on connect. Undefined means
+// the probe could not tell, which is treated as supported.
+export interface ServerCapabilities {
+  listUsers?: boolean; // v1.5.4+
+  batchCheck?: boolean; // v1.8.0+
+  streamedListObjects?: boolean;
+}
+
+// Client request options
+export interface RetryAttempt {
+  attempt: number; // 1-based number of the retry about to be made
+  maxRetries: number;
+  delayMs: number;
+  reason: string; // e.g. "HTTP 429" or the network error message
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Called before each retry of a failed request
+  onRetry?: (attempt: RetryAttempt) => void;
+  // Skip the response cache and fetch fresh data (the result is still cached)
+  noCache?: boolean;
+}
+
+// Options for the iterate* helpers that follow continuation tokens
+export interface IterateOptions extends RequestOptions {
+  pageSize?: number;
+  // Stop once this many items have been read
+  maxItems?: number;
+  // Resume from an earlier page instead of the first one
+  continuationToken?: string;
+}
+
+// One page from an iterate* helper; continuationToken is null on the last page
+export interface Page<T> {
+  items: T[];
+  continuationToken: string | null;
+}
+
+// Bulk writes, split client-side into chunks the server accepts
+export interface BulkWriteRequest {
+  writes?: TupleKey[];
+  deletes?: TupleKey[];
+  authorizationModelId?: string;
+  // Skip tuples that already exist instead of failing the chunk
+  ignoreDuplicates?: boolean;
+  // Skip deletes of tuples that do not exist instead of failing the chunk
+  ignoreMissing?: boolean;
+}
+
+export interface BulkWriteChunkResult {
+  index: number;
+  operation: 'write' | 'delete';
+  tuples: TupleKey[];
+  success: boolean;
+  error?: Error;
+}
+
+export interface BulkWriteProgress {
+  completedChunks: number;
+  totalChunks: number;
+  succeededTuples: number;
+  failedTuples: number;
+  lastChunk: BulkWriteChunkResult;
+}
+
+export interface BulkWriteResult {
+  chunks: BulkWriteChunkResult[];
+  succeededTuples: number;
+  failedTuples: number;
+  // In chunks never sent because an earlier chunk failed
+  skippedTuples: number;
+}
+
+// One recorded API call, shown in the network inspector
+export interface NetworkLogEntry {
+  id: number;
+  timestamp: string;
+  method: string;
+  url: string;
+  endpoint: string;
+  requestHeaders: Record<string, string>;
+  // Lower-cased names of headers that carry credentials
+  secretHeaders: string[];
+  requestBody?: string;
+  status?: number;
+  responseBody?: string;
+  error?: string; // Network failure, no response received
+  durationMs: number;
+}
+
 // Saved Query types
 export type SavedQueryType = 'check' | 'expand' | 'list-objects' | 'list-users';
 
@@ -289,6 +521,8 @@ export interface SavedQuery {
   // List Users params
   objectId?: string;
   userFilterType?: string;
+  // Per-query consistency override (falls back to the global default)
+  consistency?: ConsistencyPreference;
   // Expected result (for assertions)
   expectedResult?: boolean | string[];
   // Last run result
@@ -298,6 +532,7 @@ export interface SavedQuery {
     objects?: string[];
     users?: string[];
     error?: string;
+    retries?: number;
     timestamp: string;
   };
 }
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { OpenFGAApiError } from '../services/api-error';
+import { describeApiError } from './api-errors';
+
+const apiError = (status: number, code: string, message: string) =>
+  new OpenFGAApiError(status, code, message, JSON.stringify({ code, message }), 'req-1');
+
+describe('describeApiError', () => {
+  it('keeps the server details alongside the hint', () => {
+    expect(describeApiError(apiError(404, 'store_id_not_found', "store '01H' not found"))).toEqual({
+      message: "store '01H' not found",
+      hint: 'This store no longer exists. Refresh the store list.',
+      code: 'store_id_not_found',
+      status: 404,
+      requestId: 'req-1',
+    });
+  });
+
+  it('names the quoted type and relation', () => {
+    expect(describeApiError(apiError(400, 'relation_not_found', "relation 'document#editr' not found")).hint).toBe(
+      '"editr" is not a relation on type "document" in the selected model. Check the spelling or switch models.'
+    );
+    expect(describeApiError(apiError(400, 'type_not_found', "type 'documnet' not found")).hint).toBe(
+      'Type "documnet" is not defined in the selected model. Check the spelling or switch models.'
+    );
+  });
+
+  it('explains which field failed validation', () => {
+    const { hint } = describeApiError(apiError(400, 'validation_error', 'invalid TupleKey.Object: value does not match regex pattern'));
+    expect(hint).toBe('The object is not in a valid format. Use "type:id", e.g. "document:roadmap".');
+  });
+
+  it('tells duplicate writes from missing deletes', () => {
+    const write = describeApiError(apiError(400, 'write_failed_due_to_invalid_input', 'cannot write a tuple which already exists'));
+    const remove = describeApiError(apiError(400, 'write_failed_due_to_invalid_input', 'cannot delete a tuple which does not exist'));
+    expect(write.hint).toMatch(/already stored/);
+    expect(remove.hint).toMatch(/not stored/);
+  });
+
+  it('falls back to the status when the code is unknown', () => {
+    const description = describeApiError(apiError(429, 'UNKNOWN_ERROR', 'HTTP 429: Too Many Requests'));
+    expect(description.code).toBeUndefined();
+    expect(description.hint).toMatch(/rate limiting/);
+  });
+
+  it('recognises network failures and plain errors', () => {
+    expect(describeApiError(new TypeError('Failed to fetch')).hint).toMatch(/Could not reach the server/);
+    expect(describeApiError(new Error('boom'))).toEqual({ message: 'boom' });
+    expect(describeApiError('nope', 'Check failed')).toEqual({ message: 'Check failed' });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Turn API failures into messages with guidance on how to fix them
+ *
+ * OpenFGA reports problems as a `code` plus a free-text `message`. The message
+ * usually quotes the offending type, relation or tuple in single quotes, which
+ * is what the hints below point the user at.
+ */
+
+import { OpenFGAApiError } from '../services/api-error';
+
+export interface ApiErrorDescription {
+  message: string;
+  hint?: string;
+  code?: string;
+  status?: number;
+  requestId?: string;
+}
+
+/**
+ * Values the server quoted in an error message, e.g. `relation 'doc#editor' not found`
+ */
+function quotedValues(message: string): string[] {
+  return Array.from(message.matchAll(/'([^']+)'/g), (m) => m[1]);
+}
+
+/**
+ * Split a quoted `type#relation` reference
+ */
+function splitRelationRef(ref: string): { type?: string; relation: string } {
+  const [type, relation] = ref.split('#');
+  return relation ? { type, relation } : { relation: ref };
+}
+
+/**
+ * Guidance for a validation_error, based on which request field failed
+ */
+function validationHint(message: string): string {
+  const field = message.match(/invalid \w+\.(\w+)/i)?.[1]?.toLowerCase();
+  switch (field) {
+    case 'user':
+      return 'The user is not in a valid format. Use "type:id", "type:*" or "type:id#relation".';
+    case 'object':
+      return 'The object is not in a valid format. Use "type:id", e.g. "document:roadmap".';
+    case 'relation':
+      return 'The relation is not a valid name. Use the bare relation, e.g. "viewer", not "document#viewer".';
+    case 'type':
+      return 'The type is not a valid name. Use the bare type, e.g. "document".';
+    default:
+      return 'The request did not pass validation. Check the format of the user, relation and object fields.';
+  }
+}
+
+/**
+ * Guidance for a tuple that the model does not allow
+ */
+function invalidTupleHint(message: string): string {
+  if (/already exists/i.test(message)) {
+    return 'This tuple is already stored. Remove it from the write or delete the existing one first.';
+  }
+  if (/did not exist|does not exist/i.test(message)) {
+    return 'The tuple you tried to delete is not stored.';
+  }
+  const restriction = message.match(/allowed type restriction for '([^']+)'/i)?.[1];
+  if (restriction) {
+    return `The user type is not allowed on "${restriction}". Check its directly related user types in the Model tab.`;
+  }
+  const quoted = quotedValues(message);
+  return quoted.length > 0
+    ? `The tuple does not fit the model. Look at ${quoted.map(q => `"${q}"`).join(', ')} in the selected model.`
+    : 'The tuple does not fit the selected model.';
+}
+
+/**
+ * Hint by OpenFGA error code; undefined when the code carries no extra meaning
+ */
+function hintForCode(code: string, message: string): string | undefined {
+  const quoted = quotedValues(message);
+  switch (code) {
+    case 'validation_error':
+      return validationHint(message);
+    case 'type_not_found':
+      return quoted[0]
+        ? `Type "${quoted[0]}" is not defined in the selected model. Check the spelling or switch models.`
+        : 'The type is not defined in the selected model.';
+    case 'relation_not_found': {
+      if (!quoted[0]) return 'The relation is not defined in the selected model.';
+      const { type, relation } = splitRelationRef(quoted[0]);
+      return type
+        ? `"${relation}" is not a relation on type "${type}" in the selected model. Check the spelling or switch models.`
+        : `Relation "${relation}" is not defined in the selected model.`;
+    }
+    case 'invalid_tuple':
+    case 'write_failed_due_to_invalid_input':
+      return invalidTupleHint(message);
+    case 'cannot_allow_duplicate_tuples_in_one_request':
+      return 'The same tuple appears more than once in this write. Remove the duplicates.';
+    case 'authorization_model_not_found':
+    case 'latest_authorization_model_not_found':
+      return 'The store has no such model. Pick another model or save one first.';
+    case 'store_id_not_found':
+      return 'This store no longer exists. Refresh the store list.';
+    case 'invalid_continuation_token':
+      return 'The pagination token expired or belongs to another query. Reload from the first page.';
+    case 'invalid_authorization_model':
+    case 'cannot_allow_multiple_references_to_one_relation':
+      return quoted.length > 0
+        ? `The model was rejected. Look at ${quoted.map(q => `"${q}"`).join(', ')}.`
+        : 'The model was rejected by the server.';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Hint by HTTP status when the code alone does not explain the failure
+ */
+function hintForStatus(status: number): string | undefined {
+  if (status === 401) return 'The server rejected the credentials. Check the authentication settings under Server Connection.';
+  if (status === 403) return 'The credentials are valid but not allowed to perform this operation.';
+  if (status === 404) return 'The server does not know this endpoint or resource. It may be an older OpenFGA version.';
+  if (status === 429) return 'The server is rate limiting requests. Wait a moment or run fewer queries at once.';
+  if (status >= 500) return 'The server hit an internal error. The request ID can help find it in the server logs.';
+  return undefined;
+}
+
+/**
+ * Describe any error thrown by the API client for display
+ */
+export function describeApiError(error: unknown, fallback = 'Request failed'): ApiErrorDescription {
+  if (error instanceof OpenFGAApiError) {
+    return {
+      message: error.message,
+      hint: hintForCode(error.code, error.message) ?? hintForStatus(error.status),
+      code: error.code !== 'UNKNOWN_ERROR' ? error.code : undefined,
+      status: error.status,
+      requestId: error.requestId,
+    };
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return {
+      message: error.message,
+      hint: 'Could not reach the server. Check the URL, that the server is running, and its CORS settings.',
+    };
+  }
+  return { message: error instanceof Error ? error.message : fallback };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Assertion, SavedQuery } from '../types/openfga';
+import { assertionsToSavedQueries, mergeAssertions, savedQueriesToAssertions } from './assertions';
+
+const query = (overrides: Partial<SavedQuery>): SavedQuery => ({
+  id: overrides.name || 'q',
+  name: 'q',
+  type: 'check',
+  createdAt: '2025-01-01T00:00:00Z',
+  user: 'user:anne',
+  relation: 'viewer',
+  object: 'document:roadmap',
+  ...overrides,
+});
+
+const assertion = (user: string, expectation: boolean, extra: Partial<Assertion> = {}): Assertion => ({
+  tuple_key: { user, relation: 'viewer', object: 'document:roadmap' },
+  expectation,
+  ...extra,
+});
+
+describe('savedQueriesToAssertions', () => {
+  it('keeps only Check queries with an expected result', () => {
+    const assertions = savedQueriesToAssertions([
+      query({ name: 'expected', expectedResult: true, context: '{"ip":"10.0.0.1"}' }),
+      query({ name: 'no expectation' }),
+      query({ name: 'list', type: 'list-objects', expectedResult: ['document:roadmap'] }),
+      query({ name: 'bad context', user: 'user:beth', expectedResult: false, context: '{not json' }),
+    ]);
+    expect(assertions).toEqual([
+      assertion('user:anne', true, { context: { ip: '10.0.0.1' } }),
+      assertion('user:beth', false),
+    ]);
+  });
+});
+
+describe('mergeAssertions', () => {
+  it('lets local entries replace server ones with the same key and context', () => {
+    const server = [assertion('user:anne', true), assertion('user:beth', true)];
+    const local = [assertion('user:anne', false), assertion('user:anne', true, { context: { ip: '10.0.0.1' } })];
+    expect(mergeAssertions(server, local)).toEqual([
+      assertion('user:anne', false),
+      assertion('user:beth', true),
+      assertion('user:anne', true, { context: { ip: '10.0.0.1' } }),
+    ]);
+  });
+});
+
+describe('assertionsToSavedQueries', () => {
+  it('skips known queries and ones with contextual tuples', () => {
+    const { queries, skipped } = assertionsToSavedQueries(
+      [
+        assertion('user:anne', true),
+        assertion('user:beth', false),
+        assertion('user:beth', false),
+        assertion('user:carl', true, { contextual_tuples: [{ user: 'user:carl', relation: 'viewer', object: 'document:roadmap' }] }),
+      ],
+      [query({})]
+    );
+    expect(skipped).toBe(1);
+    expect(queries).toEqual([
+      {
+        name: 'beth viewer roadmap',
+        type: 'check',
+        user: 'user:beth',
+        relation: 'viewer',
+        object: 'document:roadmap',
+        context: undefined,
+        expectedResult: false,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Conversion between saved Check queries and OpenFGA model assertions
+ *
+ * Saved queries live in the browser (per store), assertions live on the server
+ * (per authorization model). A Check query with an expected result maps 1:1 to
+ * an assertion; contextual tuples have no saved-query equivalent.
+ */
+
+import type { Assertion, SavedQuery } from '../types/openfga';
+
+type NewSavedQuery = Omit<SavedQuery, 'id' | 'createdAt'>;
+
+/**
+ * Identity of an assertion, used to merge local and server-side lists
+ */
+function assertionKey(assertion: Assertion): string {
+  const { user, relation, object } = assertion.tuple_key;
+  return JSON.stringify([
+    user,
+    relation,
+    object,
+    assertion.context ?? null,
+    assertion.contextual_tuples ?? [],
+  ]);
+}
+
+/**
+ * Parse a saved query's context string, ignoring invalid JSON like the query runner does
+ */
+function parseContext(context?: string): Record<string, unknown> | undefined {
+  if (!context?.trim()) return undefined;
+  try {
+    return JSON.parse(context);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build assertions from the saved Check queries that have an expected result
+ */
+export function savedQueriesToAssertions(queries: SavedQuery[]): Assertion[] {
+  return queries
+    .filter((q) => q.type === 'check' && typeof q.expectedResult === 'boolean' && q.user && q.relation && q.object)
+    .map((q) => {
+      const assertion: Assertion = {
+        tuple_key: { user: q.user!, relation: q.relation!, object: q.object! },
+        expectation: q.expectedResult as boolean,
+      };
+      const context = parseContext(q.context);
+      if (context) {
+        assertion.context = context;
+      }
+      return assertion;
+    });
+}
+
+/**
+ * Merge local assertions into the server's list. Local entries win on the same
+ * tuple key and context; server-only entries are kept.
+ */
+export function mergeAssertions(existing: Assertion[], local: Assertion[]): Assertion[] {
+  const merged = new Map<string, Assertion>();
+  for (const assertion of existing) {
+    merged.set(assertionKey(assertion), assertion);
+  }
+  for (const assertion of local) {
+    merged.set(assertionKey(assertion), assertion);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Turn server assertions into new saved Check queries, skipping ones that
+ * already exist locally and ones that rely on contextual tuples
+ */
+export function assertionsToSavedQueries(
+  assertions: Assertion[],
+  existingQueries: SavedQuery[]
+): { queries: NewSavedQuery[]; skipped: number } {
+  const existingKeys = new Set(
+    existingQueries
+      .filter((q) => q.type === 'check')
+      .map((q) => assertionKey({
+        tuple_key: { user: q.user || '', relation: q.relation || '', object: q.object || '' },
+        expectation: false,
+        context: parseContext(q.context),
+      }))
+  );
+  const queries: NewSavedQuery[] = [];
+  let skipped = 0;
+
+  for (const assertion of assertions) {
+    if (assertion.contextual_tuples && assertion.contextual_tuples.length > 0) {
+      skipped++;
+      continue;
+    }
+    if (existingKeys.has(assertionKey(assertion))) {
+      continue;
+    }
+    existingKeys.add(assertionKey(assertion));
+
+    const { user, relation, object } = assertion.tuple_key;
+    queries.push({
+      name: `${user.split(':')[1] || user} ${relation} ${object.split(':')[1] || object}`,
+      type: 'check',
+      user,
+      relation,
+      object,
+      context: assertion.context ? JSON.stringify(assertion.context) : undefined,
+      expectedResult: assertion.expectation,
+    });
+  }
+
+  return { queries, skipped };
+}
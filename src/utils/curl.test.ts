@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { NetworkLogEntry } from '../types/openfga';
+import { isSensitiveHeader, redactHeaderValue, toCurl } from './curl';
+
+const entry: NetworkLogEntry = {
+  id: 1,
+  timestamp: '2025-01-01T00:00:00Z',
+  method: 'POST',
+  url: 'https://fga.example.com/stores/01H/check',
+  endpoint: '/stores/01H/check',
+  requestHeaders: {
+    'Content-Type': 'application/json',
+    Authorization: 'Bearer secret-token',
+    'X-Api-Key': 'secret-key',
+  },
+  secretHeaders: ['authorization', 'x-api-key'],
+  requestBody: '{"tuple_key":{"user":"user:o\'brien","relation":"viewer","object":"doc:1"}}',
+  durationMs: 12,
+};
+
+describe('curl export', () => {
+  it('treats Authorization and headers marked secret as sensitive', () => {
+    expect(isSensitiveHeader(entry, 'Authorization')).toBe(true);
+    expect(isSensitiveHeader(entry, 'X-API-KEY')).toBe(true);
+    expect(isSensitiveHeader(entry, 'Content-Type')).toBe(false);
+  });
+
+  it('keeps the auth scheme when redacting', () => {
+    expect(redactHeaderValue('Bearer secret-token')).toBe('Bearer <redacted>');
+    expect(redactHeaderValue('secret-key')).toBe('<redacted>');
+  });
+
+  it('redacts credentials and shell-quotes the body', () => {
+    expect(toCurl(entry)).toBe([
+      'curl',
+      '-X POST',
+      "'https://fga.example.com/stores/01H/check'",
+      "-H 'Content-Type: application/json'",
+      "-H 'Authorization: Bearer <redacted>'",
+      "-H 'X-Api-Key: <redacted>'",
+      `--data-raw '{"tuple_key":{"user":"user:o'\\''brien","relation":"viewer","object":"doc:1"}}'`,
+    ].join(' \\\n  '));
+  });
+
+  it('shows credentials only when asked to', () => {
+    const curl = toCurl(entry, false);
+    expect(curl).toContain("-H 'Authorization: Bearer secret-token'");
+    expect(curl).toContain("-H 'X-Api-Key: secret-key'");
+  });
+
+  it('leaves out the method for GET', () => {
+    expect(toCurl({ ...entry, method: 'GET', requestHeaders: {}, requestBody: undefined })).toBe(
+      "curl \\\n  'https://fga.example.com/stores/01H/check'"
+    );
+  });
+});
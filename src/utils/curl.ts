@@ -0,0 +1,47 @@
+/**
+ * Build copy-pasteable curl commands from recorded API calls
+ */
+
+import type { NetworkLogEntry } from '../types/openfga';
+
+/**
+ * Whether a header of the entry carries credentials and should be hidden unless asked for
+ */
+export function isSensitiveHeader(entry: NetworkLogEntry, name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower === 'authorization' || (entry.secretHeaders || []).includes(lower);
+}
+
+/**
+ * Replace a credential with a placeholder, keeping the auth scheme visible
+ */
+export function redactHeaderValue(value: string): string {
+  const [scheme, token] = value.split(' ');
+  return token ? `${scheme} <redacted>` : '<redacted>';
+}
+
+/**
+ * Quote a value for a POSIX shell
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Render an entry as a curl command, optionally redacting credential headers
+ */
+export function toCurl(entry: NetworkLogEntry, redact = true): string {
+  const parts = ['curl'];
+  if (entry.method !== 'GET') {
+    parts.push(`-X ${entry.method}`);
+  }
+  parts.push(shellQuote(entry.url));
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    const shown = redact && isSensitiveHeader(entry, name) ? redactHeaderValue(value) : value;
+    parts.push(`-H ${shellQuote(`${name}: ${shown}`)}`);
+  }
+  if (entry.requestBody) {
+    parts.push(`--data-raw ${shellQuote(entry.requestBody)}`);
+  }
+  return parts.join(' \\\n  ');
+}
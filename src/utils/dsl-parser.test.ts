@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { DSLParseError, modelToDSLForEdit, parseDSL, validateDSL } from './dsl-parser';
+
+const DOCUMENT_MODEL = `model
+  schema 1.1
+
+type user
+
+type group
+  relations
+    define member: [user, group#member]
+
+# Documents can be shared with anyone
+type document
+  relations
+    define owner: [user]
+    define editor: [user, group#member with in_office] or owner
+    define viewer: [user, user:*, group#member] or editor // comments work too
+    define blocked: [user]
+
+condition in_office(ip: ipaddress, allowed: list<string>) {
+  ip.in_cidr("10.0.0.0/8") && "office" in allowed
+}
+`;
+
+// Parse, print and parse again; the printed model must mean the same thing
+function roundTrip(dsl: string) {
+  const model = parseDSL(dsl);
+  const printed = modelToDSLForEdit({ id: 'model', ...model });
+  return { model, printed, reparsed: parseDSL(printed) };
+}
+
+describe('parseDSL', () => {
+  it('converts types, direct restrictions and conditions to JSON', () => {
+    const model = parseDSL(DOCUMENT_MODEL);
+    expect(model.schema_version).toBe('1.1');
+    expect(model.type_definitions.map((t) => t.type)).toEqual(['user', 'group', 'document']);
+
+    const document = model.type_definitions[2];
+    expect(document.relations?.editor).toEqual({
+      union: { child: [{ this: {} }, { computedUserset: { relation: 'owner' } }] },
+    });
+    expect(document.metadata?.relations?.editor.directly_related_user_types).toEqual([
+      { type: 'user' },
+      { type: 'group', relation: 'member', condition: 'in_office' },
+    ]);
+    expect(document.metadata?.relations?.viewer.directly_related_user_types).toContainEqual({ type: 'user', wildcard: {} });
+
+    expect(model.conditions?.in_office.expression).toBe('ip.in_cidr("10.0.0.0/8") && "office" in allowed');
+    expect(model.conditions?.in_office.parameters).toEqual({
+      ip: { type_name: 'ipaddress' },
+      allowed: { type_name: 'list', generic_types: [{ type_name: 'string' }] },
+    });
+  });
+
+  it('round-trips through modelToDSLForEdit', () => {
+    const { model, reparsed } = roundTrip(DOCUMENT_MODEL);
+    expect(reparsed).toEqual(model);
+  });
+
+  it('throws a DSLParseError carrying every diagnostic', () => {
+    const dsl = 'model\n  schema 1.1\ntype user\ntype user\n  relations\n    define viewer: [user] or\n';
+    expect(() => parseDSL(dsl)).toThrow(DSLParseError);
+    try {
+      parseDSL(dsl);
+    } catch (error) {
+      const { diagnostics, message } = error as DSLParseError;
+      expect(diagnostics.map((d) => d.message)).toEqual([
+        'Duplicate type "user"',
+        'Expected a relation name or [types], found end of line',
+      ]);
+      expect(message).toBe('Line 4, column 6: Duplicate type "user" (and 1 more)');
+    }
+  });
+});
+
+describe('validateDSL', () => {
+  it('returns nothing for a valid model', () => {
+    expect(validateDSL(DOCUMENT_MODEL)).toEqual([]);
+  });
+
+  it('points at the offending token', () => {
+    const [diagnostic] = validateDSL('model\n  schema 1.1\ntype doc\n  relations\n    define viewer: [user] xor owner\n');
+    expect(diagnostic.message).toBe('Expected end of line, found "xor"');
+    expect(diagnostic.range.start).toMatchObject({ line: 5, column: 27 });
+    expect(diagnostic.range.end).toMatchObject({ line: 5, column: 30 });
+  });
+
+  it('reports duplicates and a missing header', () => {
+    expect(validateDSL('type doc\n  relations\n    define a: [user]\n    define a: [user]\n').map((d) => d.message)).toEqual([
+      'Model must start with "model" declaration',
+      'Duplicate relation "a" in type "doc"',
+    ]);
+  });
+
+  it('reports an unterminated condition body once', () => {
+    const diagnostics = validateDSL('model\n  schema 1.1\ntype user\ncondition c(x: int) {\n  x > 1\n');
+    expect(diagnostics.map((d) => d.message)).toEqual(['Condition body is missing its closing "}"']);
+  });
+});
+
+describe('parenthesized expressions', () => {
+  const model = (definition: string) =>
+    `model\n  schema 1.1\ntype user\ntype doc\n  relations\n    define owner: [user]\n    define editor: [user]\n    define blocked: [user]\n    define viewer: ${definition}\n`;
+
+  it('nests groups in the JSON model', () => {
+    const { type_definitions } = parseDSL(model('([user] or editor) and (owner but not blocked)'));
+    expect(type_definitions[1].relations?.viewer).toEqual({
+      intersection: {
+        child: [
+          { union: { child: [{ this: {} }, { computedUserset: { relation: 'editor' } }] } },
+          {
+            difference: {
+              base: { computedUserset: { relation: 'owner' } },
+              subtract: { computedUserset: { relation: 'blocked' } },
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('prints the parentheses back so the grouping survives a round trip', () => {
+    const { model: parsed, printed, reparsed } = roundTrip(model('([user] or editor) and (owner but not blocked)'));
+    expect(printed).toContain('define viewer: ([user] or editor) and (owner but not blocked)');
+    expect(reparsed).toEqual(parsed);
+  });
+
+  it('treats redundant parentheses as no grouping at all', () => {
+    expect(parseDSL(model('(([user]) or (editor))'))).toEqual(parseDSL(model('[user] or editor')));
+  });
+
+  it('lets a group span lines', () => {
+    const multiline = model('(\n      [user]\n      or editor\n    ) but not blocked');
+    expect(validateDSL(multiline)).toEqual([]);
+    expect(parseDSL(multiline)).toEqual(parseDSL(model('([user] or editor) but not blocked')));
+  });
+
+  it('rejects mixed operators without parentheses', () => {
+    expect(validateDSL(model('[user] or editor and owner')).map((d) => d.message)).toEqual([
+      'Cannot mix "or" and "and" without parentheses, e.g. (a or b) and c',
+    ]);
+  });
+
+  it('rejects chained "but not"', () => {
+    expect(validateDSL(model('[user] but not blocked but not owner')).map((d) => d.message)).toEqual([
+      '"but not" cannot be chained; group with parentheses, e.g. (a but not b) but not c',
+    ]);
+  });
+
+  it('reports an unclosed group', () => {
+    const [diagnostic] = validateDSL(model('([user] or editor'));
+    expect(diagnostic.message).toMatch(/^Expected "\)"/);
+  });
+});
+
+describe('relations on related objects', () => {
+  const model = (definition: string) =>
+    `model\n  schema 1.1\ntype user\ntype folder\n  relations\n    define viewer: [user]\ntype doc\n  relations\n    define parent: [folder]\n    define owner: [user]\n    define viewer: ${definition}\n`;
+
+  const viewerFromParent = {
+    tupleToUserset: { tupleset: { relation: 'parent' }, computedUserset: { relation: 'viewer' } },
+  };
+
+  it('parses "X from Y" as a tuple-to-userset', () => {
+    const { type_definitions } = parseDSL(model('[user] or viewer from parent'));
+    expect(type_definitions[2].relations?.viewer).toEqual({
+      union: { child: [{ this: {} }, viewerFromParent] },
+    });
+  });
+
+  it('prints the "from" form and round-trips it', () => {
+    const { model: parsed, printed, reparsed } = roundTrip(model('owner or (viewer from parent but not owner)'));
+    expect(printed).toContain('define viewer: owner or (viewer from parent but not owner)');
+    expect(reparsed).toEqual(parsed);
+  });
+
+  it('still accepts the legacy "->" arrow and prints it as "from"', () => {
+    const legacy = model('[user] or parent->viewer');
+    expect(validateDSL(legacy)).toEqual([]);
+    expect(parseDSL(legacy)).toEqual(parseDSL(model('[user] or viewer from parent')));
+    expect(roundTrip(legacy).printed).toContain('define viewer: [user] or viewer from parent');
+  });
+
+  it('keeps "-" inside names that are not arrows', () => {
+    const { type_definitions } = parseDSL(
+      'model\n  schema 1.1\ntype user\ntype folder\n  relations\n    define can-view: [user]\n' +
+      'type doc\n  relations\n    define parent-folder: [folder]\n    define viewer: [user] or can-view from parent-folder\n'
+    );
+    expect(type_definitions[2].relations?.viewer).toEqual({
+      union: {
+        child: [
+          { this: {} },
+          { tupleToUserset: { tupleset: { relation: 'parent-folder' }, computedUserset: { relation: 'can-view' } } },
+        ],
+      },
+    });
+  });
+
+  it('reports a missing tupleset after "from"', () => {
+    expect(validateDSL(model('viewer from')).map((d) => d.message)).toEqual([
+      'Expected a relation name after "from", found end of line',
+    ]);
+  });
+});
@@ -1,148 +1,581 @@
-import type { AuthorizationModel, TypeDefinition, Userset } from '../types/openfga';
+import type { AuthorizationModel, ConditionParamTypeRef, RelationReference, TypeDefinition, Userset } from '../types/openfga';
+import { tokenize } from './dsl-tokenizer';
+import type { DSLDiagnostic, SourcePosition, SourceRange, Token } from './dsl-tokenizer';
+
+export type { DSLDiagnostic, SourcePosition, SourceRange } from './dsl-tokenizer';
+
+// Syntax tree for a model written in the DSL. Every node keeps the source
+// range it was parsed from so problems can point at the exact text.
+
+export interface TypeRestrictionNode {
+  type: string;
+  // group#member
+  relation?: string;
+  // user:*
+  wildcard: boolean;
+  // user with condition_name
+  condition?: string;
+  range: SourceRange;
+}
+
+export type RelationExpression =
+  | { kind: 'direct'; types: TypeRestrictionNode[]; range: SourceRange }
+  | { kind: 'computedUserset'; relation: string; range: SourceRange }
+  | { kind: 'tupleToUserset'; tupleset: string; computedRelation: string; range: SourceRange }
+  | { kind: 'union' | 'intersection'; children: RelationExpression[]; range: SourceRange }
+  | { kind: 'difference'; base: RelationExpression; subtract: RelationExpression; range: SourceRange };
+
+export interface RelationNode {
+  name: string;
+  nameRange: SourceRange;
+  expression: RelationExpression;
+  range: SourceRange;
+}
 
-interface ParsedRelation {
+export interface TypeNode {
   name: string;
-  definition: string;
-  directTypes: string[];
+  nameRange: SourceRange;
+  relations: RelationNode[];
+  range: SourceRange;
 }
 
-interface ParsedType {
+export interface ConditionParameterNode {
   name: string;
-  relations: ParsedRelation[];
+  typeName: string;
+  // map<string> and list<string> take one generic type
+  genericTypes: string[];
+  range: SourceRange;
 }
 
-interface ParsedCondition {
+export interface ConditionNode {
   name: string;
-  params: string;
+  nameRange: SourceRange;
+  parameters: ConditionParameterNode[];
   expression: string;
+  range: SourceRange;
 }
 
-interface ParseResult {
+export interface ModelNode {
   schemaVersion: string;
-  types: ParsedType[];
-  conditions: ParsedCondition[];
+  types: TypeNode[];
+  conditions: ConditionNode[];
+}
+
+export interface DSLParseResult {
+  model: ModelNode;
+  // Sorted by position; empty when the source is valid
+  diagnostics: DSLDiagnostic[];
+}
+
+// Thrown by parseDSL when the source has syntax errors
+export class DSLParseError extends Error {
+  readonly diagnostics: DSLDiagnostic[];
+
+  constructor(diagnostics: DSLDiagnostic[]) {
+    const [first] = diagnostics;
+    const more = diagnostics.length > 1 ? ` (and ${diagnostics.length - 1} more)` : '';
+    super(`Line ${first.range.start.line}, column ${first.range.start.column}: ${first.message}${more}`);
+    this.name = 'DSLParseError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+const SUPPORTED_SCHEMA_VERSIONS = new Set(['1.0', '1.1']);
+
+// Words with a meaning inside an expression; they cannot be used as relation names there
+const EXPRESSION_KEYWORDS = new Set(['or', 'and', 'but', 'not', 'from']);
+
+type Operator = 'or' | 'and' | 'but not';
+
+// Aborts the current statement; the parser records it and resumes on the next line
+class ParseFailure {
+  constructor(readonly diagnostic: DSLDiagnostic) {}
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'eof':
+      return 'end of input';
+    case 'newline':
+      return 'end of line';
+    case 'conditionBody':
+      return '"{"';
+    default:
+      return `"${token.value}"`;
+  }
 }
 
 /**
- * Parse OpenFGA DSL format into JSON model
+ * Recursive-descent parser over the token stream. Statements are line based:
+ * an error skips the rest of its line and parsing continues on the next, so
+ * one typo does not hide the problems after it.
+ *
+ * Relation expressions follow the official grammar, which has no precedence
+ * between operators: a chain uses one of "or", "and" or a single "but not",
+ * and mixing them takes parentheses.
  */
-export function parseDSL(dsl: string): Omit<AuthorizationModel, 'id'> {
-  const lines = dsl.split('\n');
-  const result: ParseResult = {
-    schemaVersion: '1.1',
-    types: [],
-    conditions: [],
-  };
+class DSLParser {
+  private index = 0;
+  private previous: Token;
+  // Open parentheses; a group may continue on the following lines
+  private groupDepth = 0;
+  readonly diagnostics: DSLDiagnostic[] = [];
+
+  constructor(private tokens: Token[]) {
+    this.previous = tokens[0];
+  }
 
-  let currentType: ParsedType | null = null;
-  let inRelations = false;
-  let inCondition = false;
-  let currentCondition: ParsedCondition | null = null;
-  let conditionBody: string[] = [];
+  parseModel(): ModelNode {
+    const model: ModelNode = { schemaVersion: '', types: [], conditions: [] };
+    let modelToken: Token | null = null;
+    let schemaToken: Token | null = null;
+    let currentType: TypeNode | null = null;
+    let inRelations = false;
+
+    for (;;) {
+      this.skipBlankLines();
+      const token = this.peek();
+      if (token.kind === 'eof') break;
+
+      try {
+        if (this.isKeyword('model')) {
+          this.next();
+          if (modelToken) {
+            this.report('Duplicate "model" declaration', token.range);
+          } else if (schemaToken || model.types.length > 0 || model.conditions.length > 0) {
+            this.report('"model" must be the first declaration', token.range);
+          }
+          modelToken = modelToken || token;
+          this.expectEndOfLine();
+        } else if (this.isKeyword('schema')) {
+          this.next();
+          const version = this.peek();
+          if (version.kind !== 'number') {
+            this.fail(`Expected a schema version such as 1.1, found ${describeToken(version)}`, version.range);
+          }
+          this.next();
+          if (schemaToken) {
+            this.report('Duplicate "schema" declaration', token.range);
+          } else if (!SUPPORTED_SCHEMA_VERSIONS.has(version.value)) {
+            this.report(`Invalid schema version "${version.value}". Use "1.1"`, version.range);
+          }
+          schemaToken = schemaToken || token;
+          model.schemaVersion = model.schemaVersion || version.value;
+          this.expectEndOfLine();
+        } else if (this.isKeyword('type')) {
+          this.next();
+          const name = this.expectIdentifier('a type name');
+          if (model.types.some((t) => t.name === name.value)) {
+            this.report(`Duplicate type "${name.value}"`, name.range);
+          }
+          currentType = { name: name.value, nameRange: name.range, relations: [], range: this.rangeFrom(token.range.start) };
+          inRelations = false;
+          model.types.push(currentType);
+          this.expectEndOfLine();
+        } else if (this.isKeyword('relations')) {
+          this.next();
+          if (!currentType) {
+            this.fail('"relations" must be inside a type definition', token.range);
+          }
+          if (inRelations) {
+            this.report(`Duplicate "relations" block in type "${currentType.name}"`, token.range);
+          }
+          inRelations = true;
+          this.expectEndOfLine();
+        } else if (this.isKeyword('define')) {
+          if (!currentType || !inRelations) {
+            this.fail('"define" must be inside a "relations" block', token.range);
+          }
+          const relation = this.parseRelation();
+          if (currentType.relations.some((r) => r.name === relation.name)) {
+            this.report(`Duplicate relation "${relation.name}" in type "${currentType.name}"`, relation.nameRange);
+          }
+          currentType.relations.push(relation);
+          currentType.range = this.rangeFrom(currentType.range.start);
+          this.expectEndOfLine();
+        } else if (this.isKeyword('condition')) {
+          currentType = null;
+          inRelations = false;
+          const condition = this.parseCondition();
+          if (model.conditions.some((c) => c.name === condition.name)) {
+            this.report(`Duplicate condition "${condition.name}"`, condition.nameRange);
+          }
+          model.conditions.push(condition);
+          this.expectEndOfLine();
+        } else {
+          this.fail(
+            `Unexpected ${describeToken(token)}. Expected "type", "relations", "define" or "condition"`,
+            token.range
+          );
+        }
+      } catch (error) {
+        if (!(error instanceof ParseFailure)) throw error;
+        this.diagnostics.push(error.diagnostic);
+        this.groupDepth = 0;
+        this.skipLine();
+      }
+    }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
+    if (!modelToken) {
+      this.report('Model must start with "model" declaration', this.tokens[0].range);
+    } else if (!schemaToken) {
+      this.report('Missing "schema 1.1" after model declaration', modelToken.range);
+    }
+
+    return model;
+  }
 
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//')) {
-      continue;
+  // define <name>: <expression>
+  private parseRelation(): RelationNode {
+    const start = this.next().range.start;
+    const name = this.expectIdentifier('a relation name');
+    this.expectPunctuation(':');
+    const expression = this.parseExpression();
+
+    const directs = collectDirect(expression);
+    if (directs.length > 1) {
+      this.report('Only one [ ] type restriction is allowed per relation', directs[1].range);
     }
 
-    // Parse model declaration
-    if (trimmed === 'model') {
-      continue;
+    return { name: name.value, nameRange: name.range, expression, range: this.rangeFrom(start) };
+  }
+
+  // A chain of terms joined by a single kind of operator
+  private parseExpression(): RelationExpression {
+    const first = this.parseTerm();
+    const terms = [first];
+    let operator: Operator | null = null;
+
+    for (let op = this.peekOperator(); op; op = this.peekOperator()) {
+      if (operator && op.operator !== operator) {
+        this.fail(
+          `Cannot mix "${operator}" and "${op.operator}" without parentheses, e.g. (a ${operator} b) ${op.operator} c`,
+          op.range
+        );
+      }
+      if (operator === 'but not') {
+        this.fail('"but not" cannot be chained; group with parentheses, e.g. (a but not b) but not c', op.range);
+      }
+      operator = op.operator;
+      this.consumeOperator(op.operator);
+      terms.push(this.parseTerm());
     }
 
-    // Parse schema version
-    const schemaMatch = trimmed.match(/^schema\s+(\d+\.\d+)$/);
-    if (schemaMatch) {
-      result.schemaVersion = schemaMatch[1];
-      continue;
+    const range = this.rangeFrom(first.range.start);
+    switch (operator) {
+      case null:
+        return first;
+      case 'but not':
+        return { kind: 'difference', base: terms[0], subtract: terms[1], range };
+      case 'or':
+        return { kind: 'union', children: terms, range };
+      case 'and':
+        return { kind: 'intersection', children: terms, range };
     }
+  }
 
-    // Parse type declaration
-    const typeMatch = trimmed.match(/^type\s+(\w+)$/);
-    if (typeMatch) {
-      if (currentType) {
-        result.types.push(currentType);
-      }
-      currentType = { name: typeMatch[1], relations: [] };
-      inRelations = false;
-      continue;
+  // [types], a relation on the same object, a relation on a related object
+  // (viewer from parent), or a parenthesized expression
+  private parseTerm(): RelationExpression {
+    const token = this.peek();
+
+    if (this.isPunctuation('[')) {
+      return this.parseDirectTypes();
     }
 
-    // Parse relations section
-    if (trimmed === 'relations') {
-      inRelations = true;
-      continue;
+    if (this.isPunctuation('(')) {
+      this.next();
+      this.groupDepth++;
+      const expression = this.parseExpression();
+      this.expectPunctuation(')');
+      this.groupDepth--;
+      return { ...expression, range: this.rangeFrom(token.range.start) };
     }
 
-    // Parse relation definition
-    const defineMatch = trimmed.match(/^define\s+(\w+)\s*:\s*(.+)$/);
-    if (defineMatch && currentType && inRelations) {
-      const relationName = defineMatch[1];
-      const definition = defineMatch[2].trim();
-      
-      // Extract direct types from brackets like [user, user:*, group#member]
-      const directTypes: string[] = [];
-      const bracketMatch = definition.match(/\[([^\]]+)\]/);
-      if (bracketMatch) {
-        const types = bracketMatch[1].split(',').map(t => t.trim());
-        directTypes.push(...types);
+    if (token.kind !== 'identifier' || EXPRESSION_KEYWORDS.has(token.value)) {
+      this.fail(`Expected a relation name or [types], found ${describeToken(token)}`, token.range);
+    }
+    this.next();
+
+    // viewer from parent
+    if (this.isKeyword('from')) {
+      this.next();
+      const tupleset = this.peek();
+      if (tupleset.kind !== 'identifier' || EXPRESSION_KEYWORDS.has(tupleset.value)) {
+        this.fail(`Expected a relation name after "from", found ${describeToken(tupleset)}`, tupleset.range);
       }
+      this.next();
+      return {
+        kind: 'tupleToUserset',
+        tupleset: tupleset.value,
+        computedRelation: token.value,
+        range: this.rangeFrom(token.range.start),
+      };
+    }
+
+    // Legacy arrow form, still accepted: parent->viewer
+    if (this.isPunctuation('->')) {
+      this.next();
+      const computed = this.expectIdentifier('a relation name after "->"');
+      return {
+        kind: 'tupleToUserset',
+        tupleset: token.value,
+        computedRelation: computed.value,
+        range: this.rangeFrom(token.range.start),
+      };
+    }
+
+    return { kind: 'computedUserset', relation: token.value, range: token.range };
+  }
+
+  // [user, user:*, group#member, user with condition]
+  private parseDirectTypes(): RelationExpression {
+    const start = this.next().range.start;
+    const types: TypeRestrictionNode[] = [];
+
+    if (this.isPunctuation(']')) {
+      this.fail('Expected at least one type inside [ ]', this.peek().range);
+    }
+
+    types.push(this.parseTypeRestriction());
+    while (this.isPunctuation(',')) {
+      this.next();
+      types.push(this.parseTypeRestriction());
+    }
+
+    this.expectPunctuation(']');
+    return { kind: 'direct', types, range: this.rangeFrom(start) };
+  }
 
-      currentType.relations.push({
-        name: relationName,
-        definition,
-        directTypes,
-      });
-      continue;
+  private parseTypeRestriction(): TypeRestrictionNode {
+    const type = this.expectIdentifier('a type name');
+    const restriction: TypeRestrictionNode = { type: type.value, wildcard: false, range: type.range };
+
+    if (this.isPunctuation(':')) {
+      this.next();
+      this.expectPunctuation('*');
+      restriction.wildcard = true;
+    } else if (this.isPunctuation('#')) {
+      this.next();
+      restriction.relation = this.expectIdentifier('a relation name after "#"').value;
     }
 
-    // Parse condition declaration
-    const conditionMatch = trimmed.match(/^condition\s+(\w+)\s*\(([^)]*)\)\s*\{?\s*$/);
-    if (conditionMatch) {
-      if (currentType) {
-        result.types.push(currentType);
-        currentType = null;
+    if (this.isKeyword('with')) {
+      this.next();
+      restriction.condition = this.expectIdentifier('a condition name after "with"').value;
+    }
+
+    restriction.range = this.rangeFrom(type.range.start);
+    return restriction;
+  }
+
+  // condition <name>(<param>: <type>, ...) { <CEL expression> }
+  private parseCondition(): ConditionNode {
+    const start = this.next().range.start;
+    const name = this.expectIdentifier('a condition name');
+    this.expectPunctuation('(');
+
+    const parameters: ConditionParameterNode[] = [];
+    if (!this.isPunctuation(')')) {
+      parameters.push(this.parseConditionParameter());
+      while (this.isPunctuation(',')) {
+        this.next();
+        parameters.push(this.parseConditionParameter());
       }
-      inCondition = true;
-      currentCondition = {
-        name: conditionMatch[1],
-        params: conditionMatch[2],
-        expression: '',
-      };
-      conditionBody = [];
-      continue;
-    }
-
-    // Parse condition body
-    if (inCondition && currentCondition) {
-      if (trimmed === '}') {
-        currentCondition.expression = conditionBody.join('\n').trim();
-        result.conditions.push(currentCondition);
-        currentCondition = null;
-        inCondition = false;
-        conditionBody = [];
-      } else {
-        conditionBody.push(trimmed);
+    }
+    this.expectPunctuation(')');
+
+    // The body may open on the next line
+    this.skipBlankLines();
+    const body = this.peek();
+    if (body.kind !== 'conditionBody') {
+      this.fail(`Expected "{" to start the condition body, found ${describeToken(body)}`, body.range);
+    }
+    this.next();
+
+    const expression = body.value
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join('\n');
+    if (!expression) {
+      this.report(`Condition "${name.value}" has an empty expression`, body.range);
+    }
+
+    return { name: name.value, nameRange: name.range, parameters, expression, range: this.rangeFrom(start) };
+  }
+
+  private parseConditionParameter(): ConditionParameterNode {
+    const name = this.expectIdentifier('a parameter name');
+    this.expectPunctuation(':');
+    const typeName = this.expectIdentifier('a parameter type');
+    const genericTypes: string[] = [];
+    if (this.isPunctuation('<')) {
+      this.next();
+      genericTypes.push(this.expectIdentifier('a generic type').value);
+      this.expectPunctuation('>');
+    }
+    return { name: name.value, typeName: typeName.value, genericTypes, range: this.rangeFrom(name.range.start) };
+  }
+
+  private peekOperator(): { operator: Operator; range: SourceRange } | null {
+    const token = this.peek();
+    if (this.isKeyword('or') || this.isKeyword('and')) {
+      return { operator: token.value as Operator, range: token.range };
+    }
+    if (this.isKeyword('but')) {
+      const not = this.peek(1);
+      if (not.kind !== 'identifier' || not.value !== 'not') {
+        this.fail('Expected "not" after "but"', not.range);
       }
-      continue;
+      return { operator: 'but not', range: { start: token.range.start, end: not.range.end } };
+    }
+    return null;
+  }
+
+  private consumeOperator(operator: Operator) {
+    this.next();
+    if (operator === 'but not') {
+      this.next();
+    }
+  }
+
+  // Index of the token `ahead` places on, passing over line breaks inside a group
+  private tokenIndex(ahead = 0): number {
+    const last = this.tokens.length - 1;
+    let index = this.index;
+    for (let seen = 0; index < last; index++) {
+      if (this.groupDepth > 0 && this.tokens[index].kind === 'newline') continue;
+      if (seen++ === ahead) break;
+    }
+    return Math.min(index, last);
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[this.tokenIndex(ahead)];
+  }
+
+  private next(): Token {
+    const index = this.tokenIndex();
+    const token = this.tokens[index];
+    if (token.kind !== 'eof') {
+      this.index = index + 1;
+      this.previous = token;
+    }
+    return token;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'identifier' && token.value === value;
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punctuation' && token.value === value;
+  }
+
+  private expectIdentifier(what: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      this.fail(`Expected ${what}, found ${describeToken(token)}`, token.range);
+    }
+    return this.next();
+  }
+
+  private expectPunctuation(value: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'punctuation' || token.value !== value) {
+      this.fail(`Expected "${value}", found ${describeToken(token)}`, token.range);
+    }
+    return this.next();
+  }
+
+  private expectEndOfLine() {
+    const token = this.peek();
+    if (token.kind === 'eof') return;
+    if (token.kind !== 'newline') {
+      this.fail(`Expected end of line, found ${describeToken(token)}`, token.range);
+    }
+    this.next();
+  }
+
+  private skipLine() {
+    while (this.peek().kind !== 'newline' && this.peek().kind !== 'eof') {
+      this.next();
     }
   }
 
-  // Don't forget the last type
-  if (currentType) {
-    result.types.push(currentType);
+  private skipBlankLines() {
+    while (this.peek().kind === 'newline') {
+      this.next();
+    }
+  }
+
+  // From start up to the end of the last consumed token
+  private rangeFrom(start: SourcePosition): SourceRange {
+    return { start, end: this.previous.range.end };
   }
 
-  // Convert to OpenFGA JSON format
-  return convertToJSON(result);
+  private report(message: string, range: SourceRange) {
+    this.diagnostics.push({ message, range });
+  }
+
+  private fail(message: string, range: SourceRange): never {
+    throw new ParseFailure({ message, range });
+  }
 }
 
-function convertToJSON(parsed: ParseResult): Omit<AuthorizationModel, 'id'> {
-  const typeDefinitions: TypeDefinition[] = parsed.types.map(type => {
+function collectDirect(expression: RelationExpression): Extract<RelationExpression, { kind: 'direct' }>[] {
+  switch (expression.kind) {
+    case 'direct':
+      return [expression];
+    case 'union':
+    case 'intersection':
+      return expression.children.flatMap(collectDirect);
+    case 'difference':
+      return [...collectDirect(expression.base), ...collectDirect(expression.subtract)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parse DSL source into a syntax tree, collecting every syntax error found
+ */
+export function parseDSLDocument(dsl: string): DSLParseResult {
+  const { tokens, diagnostics } = tokenize(dsl);
+  const parser = new DSLParser(tokens);
+  const model = parser.parseModel();
+  return {
+    model,
+    diagnostics: [...diagnostics, ...parser.diagnostics].sort(
+      (a, b) => a.range.start.offset - b.range.start.offset
+    ),
+  };
+}
+
+/**
+ * Syntax errors in DSL source, for live validation in the editor
+ */
+export function validateDSL(dsl: string): DSLDiagnostic[] {
+  return parseDSLDocument(dsl).diagnostics;
+}
+
+/**
+ * Parse OpenFGA DSL format into JSON model. Throws a DSLParseError listing
+ * the syntax errors when the source is malformed.
+ */
+export function parseDSL(dsl: string): Omit<AuthorizationModel, 'id'> {
+  const { model, diagnostics } = parseDSLDocument(dsl);
+  if (diagnostics.length > 0) {
+    throw new DSLParseError(diagnostics);
+  }
+  return convertToJSON(model);
+}
+
+function convertToJSON(model: ModelNode): Omit<AuthorizationModel, 'id'> {
+  const typeDefinitions: TypeDefinition[] = model.types.map((type) => {
     const typeDef: TypeDefinition = {
       type: type.name,
     };
@@ -151,12 +584,13 @@ function convertToJSON(parsed: ParseResult): Omit<AuthorizationModel, 'id'> {
       typeDef.relations = {};
       typeDef.metadata = { relations: {} };
 
-      for (const rel of type.relations) {
-        typeDef.relations[rel.name] = parseRelationDefinition(rel.definition);
-        
-        if (rel.directTypes.length > 0) {
-          typeDef.metadata!.relations![rel.name] = {
-            directly_related_user_types: rel.directTypes.map(parseTypeReference),
+      for (const relation of type.relations) {
+        typeDef.relations[relation.name] = toUserset(relation.expression);
+
+        const [direct] = collectDirect(relation.expression);
+        if (direct) {
+          typeDef.metadata.relations![relation.name] = {
+            directly_related_user_types: direct.types.map(toRelationReference),
           };
         }
       }
@@ -165,176 +599,76 @@ function convertToJSON(parsed: ParseResult): Omit<AuthorizationModel, 'id'> {
     return typeDef;
   });
 
-  const model: Omit<AuthorizationModel, 'id'> = {
-    schema_version: parsed.schemaVersion,
+  const result: Omit<AuthorizationModel, 'id'> = {
+    schema_version: model.schemaVersion,
     type_definitions: typeDefinitions,
   };
 
-  if (parsed.conditions.length > 0) {
-    model.conditions = {};
-    for (const cond of parsed.conditions) {
-      model.conditions[cond.name] = {
-        name: cond.name,
-        expression: cond.expression,
-        parameters: parseConditionParams(cond.params),
+  if (model.conditions.length > 0) {
+    result.conditions = {};
+    for (const condition of model.conditions) {
+      result.conditions[condition.name] = {
+        name: condition.name,
+        expression: condition.expression,
+        parameters: toConditionParameters(condition.parameters),
       };
     }
   }
 
-  return model;
-}
-
-function parseTypeReference(typeStr: string): { type: string; relation?: string; wildcard?: Record<string, never>; condition?: string } {
-  const trimmed = typeStr.trim();
-  
-  // Handle wildcard: user:*
-  if (trimmed.endsWith(':*')) {
-    return { type: trimmed.slice(0, -2), wildcard: {} };
-  }
-  
-  // Handle relation reference: group#member
-  const hashMatch = trimmed.match(/^(\w+)#(\w+)$/);
-  if (hashMatch) {
-    return { type: hashMatch[1], relation: hashMatch[2] };
-  }
-  
-  // Handle condition: user with condition
-  const condMatch = trimmed.match(/^(\w+)\s+with\s+(\w+)$/);
-  if (condMatch) {
-    return { type: condMatch[1], condition: condMatch[2] };
-  }
-  
-  // Simple type
-  return { type: trimmed };
+  return result;
 }
 
-function parseRelationDefinition(definition: string): Userset {
-  const trimmed = definition.trim();
-
-  // Handle direct assignment: [user] or [user, group#member]
-  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
-    return { this: {} };
-  }
-
-  // Handle union: [user] or owner
-  if (trimmed.includes(' or ')) {
-    const parts = splitByOperator(trimmed, ' or ');
-    return {
-      union: {
-        child: parts.map(p => parseRelationDefinition(p)),
-      },
-    };
-  }
-
-  // Handle intersection: owner and editor
-  if (trimmed.includes(' and ')) {
-    const parts = splitByOperator(trimmed, ' and ');
-    return {
-      intersection: {
-        child: parts.map(p => parseRelationDefinition(p)),
-      },
-    };
-  }
-
-  // Handle difference: viewer but not blocked
-  if (trimmed.includes(' but not ')) {
-    const parts = trimmed.split(' but not ');
-    return {
-      difference: {
-        base: parseRelationDefinition(parts[0]),
-        subtract: parseRelationDefinition(parts[1]),
-      },
-    };
-  }
-
-  // Handle tuple to userset: parent->viewer
-  if (trimmed.includes('->')) {
-    const parts = trimmed.split('->');
-    return {
-      tupleToUserset: {
-        tupleset: { relation: parts[0].trim() },
-        computedUserset: { relation: parts[1].trim() },
-      },
-    };
-  }
-
-  // Handle computed userset (just a relation name)
-  if (/^\w+$/.test(trimmed)) {
-    return {
-      computedUserset: { relation: trimmed },
-    };
-  }
-
-  // Handle direct with types in brackets at the start
-  const bracketMatch = trimmed.match(/^\[([^\]]+)\](.*)$/);
-  if (bracketMatch) {
-    const rest = bracketMatch[2].trim();
-    if (!rest) {
+function toUserset(expression: RelationExpression): Userset {
+  switch (expression.kind) {
+    case 'direct':
       return { this: {} };
-    }
-    // [user] or owner
-    if (rest.startsWith('or ')) {
-      const otherPart = rest.slice(3).trim();
+    case 'computedUserset':
+      return { computedUserset: { relation: expression.relation } };
+    case 'tupleToUserset':
       return {
-        union: {
-          child: [
-            { this: {} },
-            parseRelationDefinition(otherPart),
-          ],
+        tupleToUserset: {
+          tupleset: { relation: expression.tupleset },
+          computedUserset: { relation: expression.computedRelation },
+        },
+      };
+    case 'union':
+      return { union: { child: expression.children.map(toUserset) } };
+    case 'intersection':
+      return { intersection: { child: expression.children.map(toUserset) } };
+    case 'difference':
+      return {
+        difference: {
+          base: toUserset(expression.base),
+          subtract: toUserset(expression.subtract),
         },
       };
-    }
   }
-
-  // Default to this (direct)
-  return { this: {} };
 }
 
-function splitByOperator(str: string, operator: string): string[] {
-  const parts: string[] = [];
-  let current = '';
-  let bracketDepth = 0;
-  let i = 0;
-
-  while (i < str.length) {
-    if (str[i] === '[') {
-      bracketDepth++;
-      current += str[i];
-    } else if (str[i] === ']') {
-      bracketDepth--;
-      current += str[i];
-    } else if (bracketDepth === 0 && str.slice(i).startsWith(operator)) {
-      parts.push(current.trim());
-      current = '';
-      i += operator.length;
-      continue;
-    } else {
-      current += str[i];
-    }
-    i++;
+function toRelationReference(node: TypeRestrictionNode): RelationReference {
+  const reference: RelationReference = { type: node.type };
+  if (node.wildcard) {
+    reference.wildcard = {};
   }
-
-  if (current.trim()) {
-    parts.push(current.trim());
+  if (node.relation) {
+    reference.relation = node.relation;
   }
-
-  return parts;
+  if (node.condition) {
+    reference.condition = node.condition;
+  }
+  return reference;
 }
 
-function parseConditionParams(params: string): Record<string, { type_name: string }> | undefined {
-  if (!params.trim()) return undefined;
-  
-  const result: Record<string, { type_name: string }> = {};
-  const pairs = params.split(',');
-  
-  for (const pair of pairs) {
-    const match = pair.trim().match(/^(\w+)\s*:\s*(\w+)$/);
-    if (match) {
-      result[match[1]] = { type_name: match[2] };
-    }
+function toConditionParameters(parameters: ConditionParameterNode[]): Record<string, ConditionParamTypeRef> | undefined {
+  if (parameters.length === 0) return undefined;
+
+  const result: Record<string, ConditionParamTypeRef> = {};
+  for (const parameter of parameters) {
+    result[parameter.name] = parameter.genericTypes.length > 0
+      ? { type_name: parameter.typeName, generic_types: parameter.genericTypes.map((type_name) => ({ type_name })) }
+      : { type_name: parameter.typeName };
   }
-  
-  return Object.keys(result).length > 0 ? result : undefined;
+  return result;
 }
 
 /**
@@ -374,69 +708,65 @@ export function modelToDSLForEdit(model: AuthorizationModel): string {
   return lines.join('\n');
 }
 
+// Nested operators are wrapped in parentheses, since the DSL has no
+// precedence between "or", "and" and "but not"
 function buildRelationDefinition(
   userset: Userset, 
   directTypes: Array<{ type: string; relation?: string; wildcard?: Record<string, never>; condition?: string }>
 ): string {
   const typeStr = directTypes.length > 0 
     ? `[${directTypes.map(formatTypeRef).join(', ')}]` 
-    : '';
-
-  if (userset.this) {
-    return typeStr || '[user]';
-  }
+    : '[user]';
 
-  if (userset.computedUserset) {
-    return userset.computedUserset.relation || '';
-  }
-
-  if (userset.tupleToUserset) {
-    const tupleset = userset.tupleToUserset.tupleset?.relation || '';
-    const computed = userset.tupleToUserset.computedUserset?.relation || '';
-    return `${tupleset}->${computed}`;
-  }
+  const format = (node: Userset, nested: boolean): string => {
+    if (node.this) {
+      return typeStr;
+    }
 
-  if (userset.union) {
-    const children = userset.union.child || [];
-    const parts = children.map((c, idx) => {
-      if (c.this && idx === 0 && typeStr) {
-        return typeStr;
-      }
-      return buildRelationDefinition(c, []);
-    });
-    return parts.join(' or ');
-  }
+    if (node.computedUserset) {
+      return node.computedUserset.relation || '';
+    }
 
-  if (userset.intersection) {
-    const children = userset.intersection.child || [];
-    return children.map(c => buildRelationDefinition(c, [])).join(' and ');
-  }
+    if (node.tupleToUserset) {
+      const tupleset = node.tupleToUserset.tupleset?.relation || '';
+      const computed = node.tupleToUserset.computedUserset?.relation || '';
+      return `${computed} from ${tupleset}`;
+    }
 
-  if (userset.difference) {
-    const base = buildRelationDefinition(userset.difference.base || {}, []);
-    const subtract = buildRelationDefinition(userset.difference.subtract || {}, []);
-    return `${base} but not ${subtract}`;
-  }
+    let expression: string;
+    if (node.union) {
+      expression = (node.union.child || []).map((c) => format(c, true)).join(' or ');
+    } else if (node.intersection) {
+      expression = (node.intersection.child || []).map((c) => format(c, true)).join(' and ');
+    } else if (node.difference) {
+      const base = format(node.difference.base || {}, true);
+      const subtract = format(node.difference.subtract || {}, true);
+      expression = `${base} but not ${subtract}`;
+    } else {
+      return typeStr;
+    }
+    return nested ? `(${expression})` : expression;
+  };
 
-  return typeStr || '[user]';
+  return format(userset, false);
 }
 
 function formatTypeRef(ref: { type: string; relation?: string; wildcard?: Record<string, never>; condition?: string }): string {
+  let typeRef = ref.type;
   if (ref.wildcard) {
-    return `${ref.type}:*`;
-  }
-  if (ref.relation) {
-    return `${ref.type}#${ref.relation}`;
-  }
-  if (ref.condition) {
-    return `${ref.type} with ${ref.condition}`;
+    typeRef = `${ref.type}:*`;
+  } else if (ref.relation) {
+    typeRef = `${ref.type}#${ref.relation}`;
   }
-  return ref.type;
+  return ref.condition ? `${typeRef} with ${ref.condition}` : typeRef;
 }
 
-function formatConditionParams(params?: Record<string, { type_name: string }>): string {
+function formatConditionParams(params?: Record<string, ConditionParamTypeRef>): string {
   if (!params) return '';
   return Object.entries(params)
-    .map(([name, type]) => `${name}: ${type.type_name}`)
+    .map(([name, type]) => {
+      const generics = type.generic_types?.map((t) => t.type_name).join(', ');
+      return `${name}: ${type.type_name}${generics ? `<${generics}>` : ''}`;
+    })
     .join(', ');
 }
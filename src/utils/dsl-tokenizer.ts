@@ -0,0 +1,175 @@
+/**
+ * Tokenizer for the OpenFGA modeling language (DSL)
+ *
+ * Newlines are tokens because a definition ends at the end of its line;
+ * indentation is not, the keywords alone give the structure. `#` starts a
+ * comment at the start of a line or after whitespace, and is the `type#relation`
+ * separator everywhere else. A condition's `{ ... }` body is CEL, which this
+ * tokenizer does not look into; it comes out as a single token.
+ */
+
+// Lines and columns are 1-based; offset is the 0-based index into the source
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+// Start is inclusive, end exclusive
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface DSLDiagnostic {
+  message: string;
+  range: SourceRange;
+}
+
+export type TokenKind =
+  | 'identifier'
+  | 'number'
+  | 'punctuation'
+  | 'conditionBody'
+  | 'newline'
+  | 'eof';
+
+export interface Token {
+  kind: TokenKind;
+  // Keywords are identifiers; a conditionBody holds the text between the braces
+  value: string;
+  range: SourceRange;
+}
+
+const PUNCTUATION = new Set([':', '[', ']', ',', '#', '*', '(', ')', '<', '>']);
+
+const isIdentifierStart = (ch: string) => /[A-Za-z_]/.test(ch);
+const isIdentifierPart = (ch: string) => /[A-Za-z0-9_-]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+export function tokenize(source: string): { tokens: Token[]; diagnostics: DSLDiagnostic[] } {
+  const tokens: Token[] = [];
+  const diagnostics: DSLDiagnostic[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): SourcePosition => ({ line, column, offset });
+
+  const advance = () => {
+    if (source[offset] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    offset++;
+  };
+
+  const push = (kind: TokenKind, value: string, start: SourcePosition) => {
+    tokens.push({ kind, value, range: { start, end: position() } });
+  };
+
+  // Read up to the matching '}', skipping braces inside CEL string literals
+  const readConditionBody = (start: SourcePosition) => {
+    advance();
+    let depth = 1;
+    let quote: string | null = null;
+    while (offset < source.length) {
+      const c = source[offset];
+      if (quote) {
+        if (c === '\\') {
+          advance();
+        } else if (c === quote) {
+          quote = null;
+        }
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (c === '{') {
+        depth++;
+      } else if (c === '}' && --depth === 0) {
+        const body = source.slice(start.offset + 1, offset);
+        advance();
+        push('conditionBody', body, start);
+        return;
+      }
+      advance();
+    }
+    // Keep what there is so the parser does not report the body as missing too
+    push('conditionBody', source.slice(start.offset + 1), start);
+    diagnostics.push({
+      message: 'Condition body is missing its closing "}"',
+      range: { start, end: { ...start, column: start.column + 1, offset: start.offset + 1 } },
+    });
+  };
+
+  while (offset < source.length) {
+    const ch = source[offset];
+    const start = position();
+
+    if (ch === '\n') {
+      advance();
+      push('newline', '\n', start);
+      continue;
+    }
+
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      advance();
+      continue;
+    }
+
+    // Comments run to the end of the line
+    const atWordBoundary = offset === 0 || /\s/.test(source[offset - 1]);
+    if ((ch === '#' && atWordBoundary) || source.startsWith('//', offset)) {
+      while (offset < source.length && source[offset] !== '\n') advance();
+      continue;
+    }
+
+    if (isIdentifierStart(ch)) {
+      // A '-' belongs to the name unless it starts the legacy '->' arrow (parent->viewer,
+      // now written "viewer from parent")
+      while (
+        offset < source.length &&
+        isIdentifierPart(source[offset]) &&
+        !source.startsWith('->', offset)
+      ) {
+        advance();
+      }
+      push('identifier', source.slice(start.offset, offset), start);
+      continue;
+    }
+
+    if (isDigit(ch)) {
+      while (offset < source.length && (isDigit(source[offset]) || source[offset] === '.')) advance();
+      push('number', source.slice(start.offset, offset), start);
+      continue;
+    }
+
+    if (source.startsWith('->', offset)) {
+      advance();
+      advance();
+      push('punctuation', '->', start);
+      continue;
+    }
+
+    if (PUNCTUATION.has(ch)) {
+      advance();
+      push('punctuation', ch, start);
+      continue;
+    }
+
+    if (ch === '{') {
+      readConditionBody(start);
+      continue;
+    }
+
+    advance();
+    diagnostics.push({
+      message: `Unexpected character "${ch}"`,
+      range: { start, end: position() },
+    });
+  }
+
+  tokens.push({ kind: 'eof', value: '', range: { start: position(), end: position() } });
+  return { tokens, diagnostics };
+}
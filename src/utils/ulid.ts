@@ -48,6 +48,26 @@ export function extractTimestampFromULID(ulid: string): Date | null {
   }
 }
 
+/**
+ * Generate a new ULID for the given time
+ * @param time Milliseconds since Unix epoch
+ * @returns 26-character ULID string
+ */
+export function generateULID(time: number = Date.now()): string {
+  let timestampPart = '';
+  for (let i = 0; i < 10; i++) {
+    timestampPart = ENCODING[time % 32] + timestampPart;
+    time = Math.floor(time / 32);
+  }
+
+  let randomPart = '';
+  crypto.getRandomValues(new Uint8Array(16)).forEach((byte) => {
+    randomPart += ENCODING[byte % 32];
+  });
+
+  return timestampPart + randomPart;
+}
+
 /**
  * Format a date for display
  * @param date Date object or ISO string